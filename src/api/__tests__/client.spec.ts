@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { request } from '../client'
+import { number, object, paginated, string } from '../schemas'
+import { ApiError, NetworkError, RequestAbortedError, TimeoutError } from '../types'
+import { mockFetch, useDefaultInterceptors } from './http'
+
+/** Rede que só responde ao abort (o fetch real rejeita com AbortError) */
+function hangUntilAborted(init: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init.signal!.addEventListener('abort', () =>
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    )
+  })
+}
+
+describe('request', () => {
+  let cleanup: () => void
+  beforeEach(() => {
+    cleanup = useDefaultInterceptors()
+    // Backoff sem espera: o jitter sorteia 0
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+  })
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  describe('novas tentativas', () => {
+    it('repete o GET após 502 e devolve a resposta seguinte', async () => {
+      const calls = mockFetch({ status: 502 }, { body: { data: { ok: true } } })
+      await expect(request('/health')).resolves.toEqual({ ok: true })
+      expect(calls).toHaveLength(2)
+      expect(calls[1]!.init.headers).toMatchObject({ Authorization: 'Bearer token-teste' })
+    })
+
+    it('desiste depois das novas tentativas padrão, com o último status', async () => {
+      const calls = mockFetch({ status: 503 }, { status: 504 }, { status: 502 })
+      await expect(request('/health')).rejects.toMatchObject({ name: 'ApiError', status: 502 })
+      expect(calls).toHaveLength(3)
+    })
+
+    it('não repete mutações nem erros definitivos', async () => {
+      mockFetch({ status: 502 })
+      await expect(request('/sales', { method: 'POST', body: {} })).rejects.toBeInstanceOf(ApiError)
+
+      const calls = mockFetch({ status: 404, body: { message: 'Não encontrado' } })
+      await expect(request('/sales/1')).rejects.toMatchObject({ status: 404 })
+      expect(calls).toHaveLength(1)
+    })
+
+    it('espera o Retry-After do servidor antes de repetir', async () => {
+      vi.useFakeTimers()
+      const calls = mockFetch(
+        { status: 429, headers: { 'Retry-After': '2' } },
+        { body: { data: [] } }
+      )
+      const result = request('/products')
+
+      await vi.advanceTimersByTimeAsync(1999)
+      expect(calls).toHaveLength(1)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(calls).toHaveLength(2)
+      await expect(result).resolves.toEqual([])
+    })
+
+    it('repete falhas de rede e as converte em NetworkError ao desistir', async () => {
+      const offline = () => Promise.reject(new TypeError('Failed to fetch'))
+      const calls = mockFetch(offline, offline)
+      await expect(request('/products', { retries: 1 })).rejects.toBeInstanceOf(NetworkError)
+      expect(calls).toHaveLength(2)
+    })
+  })
+
+  describe('tempo limite', () => {
+    it('aborta a tentativa e lança TimeoutError', async () => {
+      vi.useFakeTimers()
+      mockFetch(hangUntilAborted)
+      const result = request('/products', { timeout: 1000, retries: 0 })
+      const assertion = expect(result).rejects.toBeInstanceOf(TimeoutError)
+
+      await vi.advanceTimersByTimeAsync(1000)
+      await assertion
+      await expect(result).rejects.toMatchObject({ timeoutMs: 1000 })
+    })
+
+    it('trata o tempo limite como falha de rede: repete o GET', async () => {
+      vi.useFakeTimers()
+      const calls = mockFetch(hangUntilAborted, { body: { data: { ok: true } } })
+      const result = request('/health', { timeout: 1000, retries: 1 })
+
+      await vi.advanceTimersByTimeAsync(1000)
+      // Backoff (0 ms) antes da nova tentativa
+      await vi.runOnlyPendingTimersAsync()
+      await expect(result).resolves.toEqual({ ok: true })
+      expect(calls).toHaveLength(2)
+    })
+
+    it('cancelamento pelo chamador não vira timeout nem é repetido', async () => {
+      const controller = new AbortController()
+      const calls = mockFetch(hangUntilAborted)
+      const result = request('/products', { signal: controller.signal })
+
+      await vi.waitFor(() => expect(calls).toHaveLength(1))
+      controller.abort()
+      await expect(result).rejects.toBeInstanceOf(RequestAbortedError)
+      expect(calls).toHaveLength(1)
+    })
+  })
+
+  describe('validação do schema', () => {
+    const itemSchema = object<{ id: number; name: string }>('Item', { id: number, name: string })
+
+    it('valida a resposta já desembrulhada de { data }', async () => {
+      mockFetch({ body: { data: { id: 1, name: 'Pod' } } })
+      await expect(request('/items/1', { schema: itemSchema })).resolves.toEqual({
+        id: 1,
+        name: 'Pod',
+      })
+    })
+
+    it('mantém o envelope das respostas paginadas', async () => {
+      const page = {
+        data: [{ id: 1, name: 'Pod' }],
+        meta: { current_page: 1, per_page: 15, total: 1, last_page: 1, from: 1, to: 1 },
+      }
+      mockFetch({ body: page })
+      await expect(request('/items', { schema: paginated(itemSchema) })).resolves.toEqual(page)
+    })
+
+    it('aponta o campo fora do contrato', async () => {
+      mockFetch({ body: { data: { id: '1', name: 'Pod' } } })
+      await expect(request('/items/1', { schema: itemSchema })).rejects.toMatchObject({
+        name: 'SchemaValidationError',
+        endpoint: 'GET /items/1',
+        issues: [{ path: 'id', expected: 'number', received: 'string("1")' }],
+      })
+    })
+  })
+})
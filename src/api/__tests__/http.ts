@@ -0,0 +1,68 @@
+/**
+ * Apoio aos testes do cliente HTTP: fetch simulado com respostas em fila e os interceptors
+ * registrados como em main.ts
+ */
+
+import { vi } from 'vitest'
+import {
+  authHeaderInterceptor,
+  registerInterceptor,
+  unauthorizedInterceptor,
+  unregisterInterceptor,
+  unwrapDataInterceptor,
+} from '../interceptors'
+
+export interface FakeResponse {
+  status?: number
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+export interface FetchCall {
+  url: string
+  init: RequestInit
+}
+
+/**
+ * Substitui o fetch global: cada chamada consome a próxima resposta da fila
+ * (uma função na fila simula a rede: pode lançar ou nunca resolver)
+ */
+export function mockFetch(
+  ...queue: Array<FakeResponse | ((init: RequestInit) => Promise<Response>)>
+) {
+  const calls: FetchCall[] = []
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string, init: RequestInit) => {
+      calls.push({ url, init })
+      const next = queue.shift()
+      if (!next) throw new Error(`Chamada inesperada: ${url}`)
+      if (typeof next === 'function') return next(init)
+      return new Response(next.body === undefined ? null : JSON.stringify(next.body), {
+        status: next.status ?? 200,
+        headers: next.headers,
+      })
+    })
+  )
+  return calls
+}
+
+const defaultInterceptors = [authHeaderInterceptor, unwrapDataInterceptor, unauthorizedInterceptor]
+
+/**
+ * Registra os interceptors padrão, com um token salvo; devolve a limpeza para o afterEach
+ */
+export function useDefaultInterceptors(token = 'token-teste'): () => void {
+  const storage = new Map([['token', token]])
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  })
+  defaultInterceptors.forEach(registerInterceptor)
+
+  return () => {
+    defaultInterceptors.forEach(interceptor => unregisterInterceptor(interceptor.name))
+    vi.unstubAllGlobals()
+  }
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { request } from '../client'
+import { cachedQuery, clearQueryCache, invalidateTags } from '../queryCache'
+import { mockFetch, useDefaultInterceptors } from './http'
+
+/** Fetcher que devolve 1, 2, 3... a cada busca */
+function counter() {
+  let calls = 0
+  return vi.fn(async () => ++calls)
+}
+
+describe('cachedQuery', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+  afterEach(() => {
+    clearQueryCache()
+    vi.useRealTimers()
+  })
+
+  it('serve o dado fresco sem buscar de novo', async () => {
+    const fetcher = counter()
+    await expect(cachedQuery('/stores', fetcher)).resolves.toBe(1)
+    vi.advanceTimersByTime(29_999)
+    await expect(cachedQuery('/stores', fetcher)).resolves.toBe(1)
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('serve o dado velho na hora e revalida em segundo plano', async () => {
+    const fetcher = counter()
+    const onRevalidate = vi.fn()
+    await cachedQuery('/stores', fetcher)
+    vi.advanceTimersByTime(30_000)
+
+    await expect(cachedQuery('/stores', fetcher, { onRevalidate })).resolves.toBe(1)
+    await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledWith(2))
+    await expect(cachedQuery('/stores', fetcher)).resolves.toBe(2)
+  })
+
+  it('busca de novo depois do ttl', async () => {
+    const fetcher = counter()
+    await cachedQuery('/stores', fetcher, { ttl: 60_000 })
+    vi.advanceTimersByTime(60_000)
+    await expect(cachedQuery('/stores', fetcher, { ttl: 60_000 })).resolves.toBe(2)
+  })
+
+  it('compartilha a busca entre chamadas concorrentes', async () => {
+    const fetcher = counter()
+    const results = await Promise.all([
+      cachedQuery('/stores', fetcher),
+      cachedQuery('/stores', fetcher),
+    ])
+    expect(results).toEqual([1, 1])
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('invalida pela tag e pelas tags filhas', async () => {
+    const fetcher = counter()
+    const other = counter()
+    await cachedQuery('/stores/3/sales', fetcher, { tags: ['sales:3'] })
+    await cachedQuery('/stores', other, { tags: ['stores'] })
+
+    invalidateTags('sales')
+    await expect(cachedQuery('/stores/3/sales', fetcher)).resolves.toBe(2)
+    await expect(cachedQuery('/stores', other)).resolves.toBe(1)
+  })
+
+  it('não guarda como fresco o resultado de uma busca invalidada no meio', async () => {
+    const fetcher = counter()
+    const pending = cachedQuery('/stores', fetcher, { tags: ['stores'] })
+    invalidateTags('stores')
+    await expect(pending).resolves.toBe(1)
+    await expect(cachedQuery('/stores', fetcher)).resolves.toBe(2)
+  })
+})
+
+describe('request com cache', () => {
+  let cleanup: () => void
+  beforeEach(() => {
+    cleanup = useDefaultInterceptors()
+  })
+  afterEach(() => {
+    clearQueryCache()
+    cleanup()
+  })
+
+  it('reaproveita o GET e a mutação invalida as tags', async () => {
+    const calls = mockFetch(
+      { body: { data: [1] } },
+      { body: { data: { id: 1 } } },
+      { body: { data: [1, 2] } }
+    )
+    const list = () => request<number[]>('/roles', { cache: {}, tags: ['roles'] })
+
+    await expect(list()).resolves.toEqual([1])
+    await expect(list()).resolves.toEqual([1])
+    await request('/roles', { method: 'POST', body: {}, invalidates: ['roles'] })
+    await expect(list()).resolves.toEqual([1, 2])
+    expect(calls.map(call => call.init.method)).toEqual(['GET', 'POST', 'GET'])
+  })
+})
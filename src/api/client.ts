@@ -1,35 +1,29 @@
 /**
  * Cliente HTTP base para a API Boss Pods
- * Tratamento centralizado de erros e autenticação
+ * Tratamento centralizado de erros; autenticação e desembrulho das respostas
+ * ficam nos interceptors registrados em main.ts (ver ./interceptors)
  */
 
 import { getApiBaseUrl } from '@/utils/env'
-import { ApiError, ValidationError } from './types'
+import {
+  ApiError,
+  NetworkError,
+  RequestAbortedError,
+  SchemaValidationError,
+  TimeoutError,
+  ValidationError,
+} from './types'
 import type { ErrorResponse } from './types'
-
-/**
- * Helper para obter o token de autenticação
- * Usa localStorage diretamente (a store também salva lá)
- */
-function getToken(): string | null {
-  return localStorage.getItem('token')
-}
-
-/**
- * Helper para limpar autenticação em caso de 401
- * Tenta usar a store, com fallback para localStorage
- */
-async function clearAuth() {
-  try {
-    const { useAuthStore } = await import('@/stores/auth')
-    const authStore = useAuthStore()
-    authStore.clearAuth()
-  } catch {
-    // Fallback: apenas limpar localStorage e redirecionar
-    localStorage.removeItem('token')
-    window.location.href = '/login'
-  }
-}
+import {
+  runErrorInterceptors,
+  runRequestInterceptors,
+  runResponseInterceptors,
+} from './interceptors/registry'
+import type { HttpMethod, RequestContext } from './interceptors/registry'
+import { collectIssues } from './schemas'
+import { cachedQuery, invalidateTags } from './queryCache'
+import type { QueryCacheOptions } from './queryCache'
+import type { Schema } from './schemas'
 
 /**
  * Constrói uma query string a partir de parâmetros
@@ -61,82 +55,304 @@ export function buildQueryString(params: unknown): string {
   return searchParams.toString()
 }
 
+/**
+ * Opções que os endpoints repassam ao cliente
+ */
+export interface RequestOptions<T = unknown> {
+  /** Sinal para cancelar a requisição (ex.: quando uma busca mais recente a substitui) */
+  signal?: AbortSignal
+  /**
+   * Usa o cache de consultas (apenas GET). Consultas em cache são compartilhadas
+   * entre chamadores e por isso não são canceladas pelo `signal`.
+   */
+  cache?: QueryCacheOptions<T>
+}
+
 /**
  * Configuração de requisição
  */
-interface RequestConfig {
-  method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
+interface RequestConfig<T> extends RequestOptions<T> {
+  method?: HttpMethod
   body?: unknown
   params?: unknown
   requiresAuth?: boolean
+  /** Tempo limite por tentativa, em ms (padrão: DEFAULT_TIMEOUT_MS) */
+  timeout?: number
+  /** Número de novas tentativas após a primeira (padrão: 2 para GET, 0 para os demais) */
+  retries?: number
+  /** Schema da resposta (já desembrulhada), validado antes de retornar */
+  schema?: Schema<T>
+  /** Tags do cache às quais a resposta pertence (GET) */
+  tags?: string[]
+  /** Tags do cache invalidadas após o sucesso da requisição (mutações) */
+  invalidates?: string[]
+}
+
+/** Tempo limite padrão por tentativa */
+const DEFAULT_TIMEOUT_MS = 15000
+/** Novas tentativas padrão para requisições idempotentes (GET) */
+const DEFAULT_GET_RETRIES = 2
+/** Atraso base do backoff exponencial */
+const RETRY_BASE_DELAY_MS = 500
+/** Teto para qualquer espera entre tentativas (inclusive Retry-After) */
+const RETRY_MAX_DELAY_MS = 30000
+/** Status HTTP transitórios que valem nova tentativa */
+const RETRYABLE_STATUSES = [429, 502, 503, 504]
+
+/**
+ * Espera entre tentativas; interrompida imediatamente se o chamador cancelar
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new RequestAbortedError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Backoff exponencial com "full jitter": espera aleatória entre 0 e base * 2^tentativa
+ */
+function getBackoffDelay(attempt: number): number {
+  const cap = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt)
+  return Math.round(Math.random() * cap)
+}
+
+/**
+ * Lê o header Retry-After (segundos ou data HTTP) e retorna o atraso em ms
+ */
+function parseRetryAfter(response: Response): number | null {
+  const header = response.headers.get('Retry-After')
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) {
+    return Math.min(RETRY_MAX_DELAY_MS, Math.max(0, seconds * 1000))
+  }
+
+  const date = Date.parse(header)
+  if (!Number.isNaN(date)) {
+    return Math.min(RETRY_MAX_DELAY_MS, Math.max(0, date - Date.now()))
+  }
+
+  return null
+}
+
+/**
+ * Executa o fetch com tempo limite (AbortController), respeitando o sinal do chamador
+ * Converte falhas de transporte em NetworkError/TimeoutError/RequestAbortedError
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  if (signal?.aborted) {
+    throw new RequestAbortedError()
+  }
+
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } catch {
+    if (timedOut) {
+      throw new TimeoutError(timeoutMs)
+    }
+    if (signal?.aborted) {
+      throw new RequestAbortedError()
+    }
+    throw new NetworkError()
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
 }
 
 /**
  * Cliente HTTP base
+ * GETs são repetidos automaticamente em falhas de rede, timeout e 429/502/503/504,
+ * com backoff exponencial (ou o Retry-After do servidor, quando presente).
+ * GETs com `cache` passam pelo cache de consultas; mutações invalidam as tags em `invalidates`.
  */
-export async function request<T>(path: string, config: RequestConfig = {}): Promise<T> {
-  const { method = 'GET', body, params, requiresAuth = true } = config
+export async function request<T>(path: string, config: RequestConfig<T> = {}): Promise<T> {
+  const { cache, tags, invalidates, ...requestConfig } = config
+
+  if (cache && (config.method ?? 'GET') === 'GET') {
+    const queryString = buildQueryString(config.params)
+    const key = `${path}${queryString ? `?${queryString}` : ''}`
+    // O fetch compartilhado não herda o signal de um chamador específico
+    return cachedQuery<T>(
+      key,
+      () => execute<T>(path, { ...requestConfig, signal: undefined }, false),
+      {
+        ...cache,
+        tags,
+      }
+    )
+  }
+
+  const result = await execute<T>(path, requestConfig, false)
+
+  if (invalidates && invalidates.length > 0) {
+    invalidateTags(...invalidates)
+  }
+
+  return result
+}
+
+/**
+ * Executa a requisição: interceptors, envio com tentativas e validação da resposta
+ */
+async function execute<T>(path: string, config: RequestConfig<T>, isReplay: boolean): Promise<T> {
+  const {
+    method = 'GET',
+    body,
+    params,
+    requiresAuth = true,
+    timeout = DEFAULT_TIMEOUT_MS,
+    retries = method === 'GET' ? DEFAULT_GET_RETRIES : 0,
+    signal,
+    schema,
+  } = config
 
   const baseUrl = getApiBaseUrl()
   const queryString = buildQueryString(params)
-  const url = `${baseUrl}${path}${queryString ? `?${queryString}` : ''}`
 
-  // Headers
-  const headers: HeadersInit = {
-    Accept: 'application/json',
-    'Content-Type': 'application/json',
+  const context: RequestContext = {
+    path,
+    method,
+    url: `${baseUrl}${path}${queryString ? `?${queryString}` : ''}`,
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+    },
+    body,
+    params,
+    requiresAuth,
+    meta: {},
+    isReplay,
+    replay: () => execute<T>(path, config, true),
   }
 
-  // Adicionar token se necessário
-  if (requiresAuth) {
-    const token = getToken()
-    if (token) {
-      headers.Authorization = `Bearer ${token}`
+  try {
+    // Interceptors de request (ex.: header Authorization)
+    await runRequestInterceptors(context)
+
+    const response = await send(context, { timeout, retries, signal })
+    const data = await response.json()
+
+    // Interceptors de response (ex.: desembrulhar { data })
+    const result = await runResponseInterceptors(data, { ...context, response })
+
+    if (schema) {
+      validateResponse(schema, result, `${method} ${path}`)
+    }
+
+    return result as T
+  } catch (error) {
+    // Cancelamento pelo chamador não é erro: não passa pelos interceptors
+    if (error instanceof RequestAbortedError || signal?.aborted) {
+      throw new RequestAbortedError()
+    }
+
+    // Corpo inválido (não-JSON, ex.: página de erro do proxy)
+    const normalized =
+      error instanceof SyntaxError ? new Error('Network error or server unavailable') : error
+
+    // Interceptors de erro (ex.: limpar sessão no 401); podem recuperar a requisição
+    const { recovered, error: finalError } = await runErrorInterceptors(normalized, context)
+    if (recovered) {
+      return recovered.data as T
     }
+    throw finalError
+  }
+}
+
+/**
+ * Confere uma resposta contra o schema do endpoint.
+ * Em desenvolvimento falha de forma explícita (SchemaValidationError com o caminho do campo);
+ * em produção registra um aviso estruturado e segue com os dados recebidos.
+ */
+export function validateResponse<T>(schema: Schema<T>, value: unknown, endpoint: string): void {
+  const issues = collectIssues(schema, value)
+  if (issues.length === 0) return
+
+  if (import.meta.env.DEV) {
+    throw new SchemaValidationError(endpoint, issues)
   }
 
-  // Configuração da requisição
+  console.warn('[api] Resposta fora do contrato', {
+    type: 'api.schema_mismatch',
+    endpoint,
+    schema: schema.description,
+    issues: issues.slice(0, 20),
+    total_issues: issues.length,
+  })
+}
+
+/**
+ * Envia a requisição com tempo limite e novas tentativas.
+ * Retorna a resposta de sucesso ou lança ApiError/NetworkError.
+ */
+async function send(
+  context: RequestContext,
+  options: { timeout: number; retries: number; signal?: AbortSignal }
+): Promise<Response> {
+  const { timeout, retries, signal } = options
+
   const requestInit: RequestInit = {
-    method,
-    headers,
+    method: context.method,
+    headers: context.headers,
   }
 
-  // Adicionar body se necessário
-  if (body !== undefined) {
-    requestInit.body = JSON.stringify(body)
+  if (context.body !== undefined) {
+    requestInit.body = JSON.stringify(context.body)
   }
 
-  try {
-    const response = await fetch(url, requestInit)
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < retries
 
-    // Tratar erros HTTP
-    if (!response.ok) {
-      await handleErrorResponse(response)
-    }
+    try {
+      const response = await fetchWithTimeout(context.url, requestInit, timeout, signal)
 
-    // Parse da resposta
-    const data = await response.json()
+      if (response.ok) {
+        return response
+      }
 
-    // Se a resposta tem formato { data: T, meta?: ... }, verificar se é paginada
-    if (data && typeof data === 'object' && 'data' in data) {
-      // Se tem meta, é uma resposta paginada - retornar objeto completo
-      if ('meta' in data) {
-        return data as T
+      // Erro HTTP transitório: aguardar e tentar novamente
+      if (canRetry && RETRYABLE_STATUSES.includes(response.status)) {
+        await sleep(parseRetryAfter(response) ?? getBackoffDelay(attempt), signal)
+        continue
       }
-      // Caso contrário, retornar apenas data
-      return data.data as T
-    }
 
-    // Caso contrário, retornar a resposta completa
-    return data as T
-  } catch (error) {
-    // Se já é um ApiError, re-lançar
-    if (error instanceof ApiError || error instanceof ValidationError) {
+      return await handleErrorResponse(response)
+    } catch (error) {
+      // Falha de transporte: tentar novamente se ainda houver tentativas
+      if (error instanceof NetworkError && canRetry) {
+        await sleep(getBackoffDelay(attempt), signal)
+        continue
+      }
       throw error
     }
-
-    // Erro de rede ou outro erro
-    throw new Error('Network error or server unavailable')
   }
 }
 
@@ -155,9 +371,8 @@ async function handleErrorResponse(response: Response): Promise<never> {
 
   const { message, errors } = errorData
 
-  // 401: Não autenticado - limpar token e redirecionar
+  // 401: Não autenticado (a limpeza da sessão fica no unauthorizedInterceptor)
   if (response.status === 401) {
-    clearAuth()
     throw new ApiError(message || 'Unauthorized', 401)
   }
 
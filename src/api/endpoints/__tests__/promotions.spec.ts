@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { Promotion } from '@/api/types'
+import { getPromotions } from '../promotions'
+import { mockFetch, useDefaultInterceptors } from '../../__tests__/http'
+
+const promotion: Promotion = {
+  id: 1,
+  name: '3 por 100',
+  kind: 'bundle',
+  store_id: null,
+  brand: 'Marca X',
+  product_ids: [],
+  quantity: 3,
+  price: '100.00',
+  percent: null,
+  starts_at: '2026-05-01',
+  ends_at: null,
+  is_active: true,
+  created_at: '2026-05-01T00:00:00Z',
+  updated_at: '2026-05-01T00:00:00Z',
+}
+
+describe('getPromotions', () => {
+  let cleanup: () => void
+  beforeEach(() => {
+    cleanup = useDefaultInterceptors()
+  })
+  afterEach(() => cleanup())
+
+  it('devolve a lista desembrulhada de { data }, com os filtros na query', async () => {
+    const calls = mockFetch({ body: { data: [promotion] } })
+    await expect(getPromotions({ store_id: 2, active_on: '2026-05-04' })).resolves.toEqual([
+      promotion,
+    ])
+    expect(calls[0]!.url).toMatch(/\/promotions\?store_id=2&active_on=2026-05-04$/)
+  })
+
+  it('recusa resposta fora do contrato', async () => {
+    mockFetch({ body: { data: [{ ...promotion, kind: 'cashback' }] } })
+    await expect(getPromotions({ store_id: 2 })).rejects.toMatchObject({
+      name: 'SchemaValidationError',
+    })
+  })
+})
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { RepricingRule } from '@/api/types'
+import { getRepricingRules } from '../repricingRules'
+import { mockFetch, useDefaultInterceptors } from '../../__tests__/http'
+
+const rule: RepricingRule = {
+  id: 3,
+  name: 'Margem 40%',
+  method: 'margin',
+  percent: 40,
+  ending: '0.90',
+  match: { brand: 'Marca X', name: '', flavor: '' },
+  user: { id: 1, name: 'Admin' },
+  created_at: '2026-05-01T00:00:00Z',
+  updated_at: '2026-05-01T00:00:00Z',
+}
+
+describe('getRepricingRules', () => {
+  let cleanup: () => void
+  beforeEach(() => {
+    cleanup = useDefaultInterceptors()
+  })
+  afterEach(() => cleanup())
+
+  it('devolve a lista desembrulhada de { data }', async () => {
+    mockFetch({ body: { data: [rule] } })
+    await expect(getRepricingRules()).resolves.toEqual([rule])
+  })
+
+  it('recusa resposta fora do contrato', async () => {
+    mockFetch({ body: { data: [{ ...rule, ending: '0.95' }] } })
+    await expect(getRepricingRules()).rejects.toMatchObject({ name: 'SchemaValidationError' })
+  })
+})
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { RoleDefinition } from '@/api/types'
+import { getRoles } from '../roles'
+import { mockFetch, useDefaultInterceptors } from '../../__tests__/http'
+
+const cashier: RoleDefinition = {
+  id: 4,
+  name: 'cashier',
+  label: 'Caixa',
+  requires_store: true,
+  is_system: false,
+  permissions: { 'sale.view': 'own-store' },
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+}
+
+describe('getRoles', () => {
+  let cleanup: () => void
+  beforeEach(() => {
+    cleanup = useDefaultInterceptors()
+  })
+  afterEach(() => cleanup())
+
+  it('devolve a lista desembrulhada de { data }', async () => {
+    const calls = mockFetch({ body: { data: [cashier] } })
+    await expect(getRoles()).resolves.toEqual([cashier])
+    expect(calls[0]!.url).toMatch(/\/roles$/)
+    expect(new Headers(calls[0]!.init.headers).get('Authorization')).toBe('Bearer token-teste')
+  })
+
+  it('recusa resposta fora do contrato', async () => {
+    mockFetch({ body: { data: [{ ...cashier, requires_store: 'sim' }] } })
+    await expect(getRoles()).rejects.toMatchObject({ name: 'SchemaValidationError' })
+  })
+})
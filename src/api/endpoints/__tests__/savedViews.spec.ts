@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { SavedView } from '@/api/types'
+import { getSavedViews } from '../savedViews'
+import { mockFetch, useDefaultInterceptors } from '../../__tests__/http'
+
+const view: SavedView = {
+  id: 1,
+  list: 'sales',
+  name: 'Canceladas do mês',
+  visibility: 'store',
+  store_id: 2,
+  query: { status: 'cancelled', sort_by: 'created_at', sort_order: 'desc' },
+  user: { id: 3, name: 'Ana' },
+  created_at: '2026-05-01T00:00:00Z',
+  updated_at: '2026-05-01T00:00:00Z',
+}
+
+describe('getSavedViews', () => {
+  let cleanup: () => void
+  beforeEach(() => {
+    cleanup = useDefaultInterceptors()
+  })
+  afterEach(() => cleanup())
+
+  it('devolve a lista desembrulhada de { data }, com a lista e a loja na query', async () => {
+    const calls = mockFetch({ body: { data: [view] } })
+    await expect(getSavedViews({ list: 'sales', store_id: 2 })).resolves.toEqual([view])
+    expect(calls[0]!.url).toMatch(/\/saved-views\?list=sales&store_id=2$/)
+  })
+
+  it('recusa resposta fora do contrato', async () => {
+    mockFetch({ body: { data: [{ ...view, query: { status: 1 } }] } })
+    await expect(getSavedViews({ list: 'sales' })).rejects.toMatchObject({
+      name: 'SchemaValidationError',
+    })
+  })
+})
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { Shift } from '@/api/types'
+import { getCurrentShift } from '../shifts'
+import { mockFetch, useDefaultInterceptors } from '../../__tests__/http'
+
+const shift: Shift = {
+  id: 7,
+  store_id: 2,
+  user_id: 3,
+  status: 'open',
+  opening_float: '100.00',
+  opened_at: '2026-05-04T12:00:00Z',
+  closed_at: null,
+  closing_count: null,
+  counted_amounts: null,
+  notes: null,
+  created_at: '2026-05-04T12:00:00Z',
+  updated_at: '2026-05-04T12:00:00Z',
+  movements: [],
+}
+
+describe('getCurrentShift', () => {
+  let cleanup: () => void
+  beforeEach(() => {
+    cleanup = useDefaultInterceptors()
+  })
+  afterEach(() => cleanup())
+
+  it('devolve o turno aberto, desembrulhado de { data }', async () => {
+    const calls = mockFetch({ body: { data: shift } })
+    await expect(getCurrentShift(2)).resolves.toEqual(shift)
+    expect(calls[0]!.url).toMatch(/\/stores\/2\/shifts\/current$/)
+  })
+
+  it('devolve null quando não há turno aberto', async () => {
+    mockFetch({ body: { data: null } })
+    await expect(getCurrentShift(2)).resolves.toBeNull()
+  })
+
+  it('recusa resposta fora do contrato', async () => {
+    mockFetch({ body: { data: { ...shift, status: 'paused' } } })
+    await expect(getCurrentShift(2)).rejects.toMatchObject({ name: 'SchemaValidationError' })
+  })
+})
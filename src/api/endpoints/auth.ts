@@ -3,7 +3,23 @@
  */
 
 import { request } from '../client'
-import type { LoginRequest, LoginResponse, User } from '../types'
+import {
+  impersonationResponseSchema,
+  loginResponseSchema,
+  refreshTokenResponseSchema,
+  userSchema,
+} from '../schemas'
+import type {
+  ImpersonationResponse,
+  LoginRequest,
+  LoginResponse,
+  RefreshTokenRequest,
+  RefreshTokenResponse,
+  SetPinRequest,
+  SwitchUserRequest,
+  UnlockRequest,
+  User,
+} from '../types'
 
 /**
  * Login
@@ -13,6 +29,74 @@ export function login(data: LoginRequest): Promise<LoginResponse> {
     method: 'POST',
     body: data,
     requiresAuth: false,
+    schema: loginResponseSchema,
+  })
+}
+
+/**
+ * Renovar o access token a partir do refresh token
+ */
+export function refreshToken(data: RefreshTokenRequest): Promise<RefreshTokenResponse> {
+  return request<RefreshTokenResponse>('/auth/refresh', {
+    method: 'POST',
+    body: data,
+    requiresAuth: false,
+    schema: refreshTokenResponseSchema,
+  })
+}
+
+/**
+ * Confirmar PIN ou senha do usuário logado para destravar a tela
+ * (PIN/senha incorretos retornam 422, sem encerrar a sessão)
+ */
+export function unlock(data: UnlockRequest): Promise<{ message: string }> {
+  return request<{ message: string }>('/auth/unlock', {
+    method: 'POST',
+    body: data,
+  })
+}
+
+/**
+ * Trocar o usuário do terminal (tela bloqueada) autenticando o novo usuário pelo PIN.
+ * Retorna uma sessão nova, como o login.
+ */
+export function switchUser(data: SwitchUserRequest): Promise<LoginResponse> {
+  return request<LoginResponse>('/auth/switch', {
+    method: 'POST',
+    body: data,
+    schema: loginResponseSchema,
+  })
+}
+
+/**
+ * Admin: obter uma sessão como outro usuário ("ver como"), registrando o início na auditoria
+ * POST /api/v1/auth/impersonate
+ */
+export function impersonateUser(userId: number): Promise<ImpersonationResponse> {
+  return request<ImpersonationResponse>('/auth/impersonate', {
+    method: 'POST',
+    body: { user_id: userId },
+    schema: impersonationResponseSchema,
+  })
+}
+
+/**
+ * Encerrar a impersonação: revoga o token emitido e registra o fim na auditoria
+ * POST /api/v1/auth/impersonate/{id}/stop
+ */
+export function stopImpersonation(impersonationId: number): Promise<{ message: string }> {
+  return request<{ message: string }>(`/auth/impersonate/${impersonationId}/stop`, {
+    method: 'POST',
+  })
+}
+
+/**
+ * Cadastrar ou alterar o PIN de desbloqueio do usuário logado
+ */
+export function setPin(data: SetPinRequest): Promise<{ message: string }> {
+  return request<{ message: string }>('/auth/pin', {
+    method: 'PUT',
+    body: data,
   })
 }
 
@@ -29,5 +113,7 @@ export function logout(): Promise<{ message: string }> {
  * Obter usuário atual
  */
 export function me(): Promise<User> {
-  return request<User>('/auth/me')
+  return request<User>('/auth/me', {
+    schema: userSchema,
+  })
 }
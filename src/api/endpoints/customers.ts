@@ -3,6 +3,8 @@
  */
 
 import { request } from '../client'
+import { customerSchema, paginated } from '../schemas'
+import type { RequestOptions } from '../client'
 import type {
   CreateCustomerRequest,
   Customer,
@@ -14,9 +16,14 @@ import type {
 /**
  * Listar clientes
  */
-export function getCustomers(params?: CustomersListParams): Promise<PaginatedResponse<Customer>> {
+export function getCustomers(
+  params?: CustomersListParams,
+  options?: RequestOptions<PaginatedResponse<Customer>>
+): Promise<PaginatedResponse<Customer>> {
   return request<PaginatedResponse<Customer>>('/customers', {
     params,
+    ...options,
+    schema: paginated(customerSchema),
   })
 }
 
@@ -27,6 +34,7 @@ export function getCustomer(id: number, includeSales = false): Promise<Customer>
   const params = includeSales ? { include: 'sales' } : undefined
   return request<Customer>(`/customers/${id}`, {
     params,
+    schema: customerSchema,
   })
 }
 
@@ -37,6 +45,7 @@ export function createCustomer(data: CreateCustomerRequest): Promise<Customer> {
   return request<Customer>('/customers', {
     method: 'POST',
     body: data,
+    schema: customerSchema,
   })
 }
 
@@ -47,5 +56,6 @@ export function updateCustomer(id: number, data: UpdateCustomerRequest): Promise
   return request<Customer>(`/customers/${id}`, {
     method: 'PUT',
     body: data,
+    schema: customerSchema,
   })
 }
@@ -10,3 +10,8 @@ export * from './inventory'
 export * from './customers'
 export * from './sales'
 export * from './users'
+export * from './roles'
+export * from './savedViews'
+export * from './repricingRules'
+export * from './promotions'
+export * from './shifts'
@@ -2,21 +2,35 @@
  * Endpoints de Inventory (Seller Inventory / Movimentações)
  */
 
-import { request } from '../client'
+import { request, validateResponse } from '../client'
 import { normalizeArrayResponse } from '../normalize'
+import { array, sellerInventoryItemSchema } from '../schemas'
+import { cacheTags } from '../queryCache'
 import type {
   InventoryUpdateResponse,
   SellerInventoryItem,
   SellerInventoryTransferRequest,
 } from '../types'
 
+const inventorySchema = array(sellerInventoryItemSchema)
+
+/**
+ * O formato do envelope varia (por isso normalizeArrayResponse);
+ * a validação é feita sobre a lista já normalizada
+ */
+function normalizeInventory(resp: unknown, endpoint: string): SellerInventoryItem[] {
+  const items = normalizeArrayResponse<SellerInventoryItem>(resp)
+  validateResponse(inventorySchema, items, endpoint)
+  return items
+}
+
 /**
  * Ver inventário do vendedor
  * GET /api/v1/users/{userId}/inventory
  */
 export async function getUserInventory(userId: number): Promise<SellerInventoryItem[]> {
   const resp = await request<unknown>(`/users/${userId}/inventory`)
-  return normalizeArrayResponse<SellerInventoryItem>(resp)
+  return normalizeInventory(resp, 'GET /users/{userId}/inventory')
 }
 
 /**
@@ -27,22 +41,25 @@ export async function getUserInventory(userId: number): Promise<SellerInventoryI
  * 2) GET /stores/{storeId}/inventory?seller_id={sellerId} (fallback, se existir)
  */
 export async function getSellerInventory(storeId: number, sellerId: number): Promise<SellerInventoryItem[]> {
+  // A validação fica fora dos try/catch para que divergências de contrato não sejam engolidas
+  let resp: unknown = null
   try {
-    const resp = await request<unknown>(`/users/${sellerId}/inventory`)
-    const items = normalizeArrayResponse<SellerInventoryItem>(resp)
-    if (items.length > 0) return items
+    resp = await request<unknown>(`/users/${sellerId}/inventory`)
   } catch {
     // ignorar e tentar fallback legado
   }
+  const items = normalizeInventory(resp, 'GET /users/{sellerId}/inventory')
+  if (items.length > 0) return items
 
+  let legacyResp: unknown = null
   try {
-    const resp = await request<unknown>(`/stores/${storeId}/inventory`, {
+    legacyResp = await request<unknown>(`/stores/${storeId}/inventory`, {
       params: { seller_id: sellerId },
     })
-    return normalizeArrayResponse<SellerInventoryItem>(resp)
   } catch {
     return []
   }
+  return normalizeInventory(legacyResp, 'GET /stores/{storeId}/inventory')
 }
 
 /**
@@ -59,6 +76,7 @@ export function addSellerInventory(
   return request<InventoryUpdateResponse>(`/stores/${storeId}/inventory/withdraw`, {
     method: 'POST',
     body: { seller_id: sellerId, items: data.items },
+    invalidates: [cacheTags.storeProducts(storeId)],
   })
 }
 
@@ -75,6 +93,7 @@ export function removeSellerInventory(
   return request<InventoryUpdateResponse>(`/stores/${storeId}/inventory/return`, {
     method: 'POST',
     body: { seller_id: sellerId, items: data.items },
+    invalidates: [cacheTags.storeProducts(storeId)],
   })
 }
 
@@ -3,6 +3,9 @@
  */
 
 import { request } from '../client'
+import { paginated, productSchema } from '../schemas'
+import { cacheTags } from '../queryCache'
+import type { RequestOptions } from '../client'
 import type {
   CreateProductRequest,
   PaginatedResponse,
@@ -14,9 +17,14 @@ import type {
 /**
  * Listar produtos
  */
-export function getProducts(params?: ProductsListParams): Promise<PaginatedResponse<Product>> {
+export function getProducts(
+  params?: ProductsListParams,
+  options?: RequestOptions<PaginatedResponse<Product>>
+): Promise<PaginatedResponse<Product>> {
   return request<PaginatedResponse<Product>>('/products', {
     params,
+    ...options,
+    schema: paginated(productSchema),
   })
 }
 
@@ -24,7 +32,9 @@ export function getProducts(params?: ProductsListParams): Promise<PaginatedRespo
  * Obter um produto
  */
 export function getProduct(id: number): Promise<Product> {
-  return request<Product>(`/products/${id}`)
+  return request<Product>(`/products/${id}`, {
+    schema: productSchema,
+  })
 }
 
 /**
@@ -34,6 +44,7 @@ export function createProduct(data: CreateProductRequest): Promise<Product> {
   return request<Product>('/products', {
     method: 'POST',
     body: data,
+    schema: productSchema,
   })
 }
 
@@ -44,6 +55,9 @@ export function updateProduct(id: number, data: UpdateProductRequest): Promise<P
   return request<Product>(`/products/${id}`, {
     method: 'PUT',
     body: data,
+    schema: productSchema,
+    // Os produtos das lojas trazem marca/nome/sabor embutidos
+    invalidates: [cacheTags.storeProducts()],
   })
 }
 
@@ -53,5 +67,7 @@ export function updateProduct(id: number, data: UpdateProductRequest): Promise<P
 export function deleteProduct(id: number): Promise<{ message: string }> {
   return request<{ message: string }>(`/products/${id}`, {
     method: 'DELETE',
+    // Os produtos das lojas trazem marca/nome/sabor embutidos
+    invalidates: [cacheTags.storeProducts()],
   })
 }
@@ -0,0 +1,59 @@
+/**
+ * Endpoints de Promoções (aplicadas automaticamente no PDV)
+ */
+
+import { request } from '../client'
+import { array, promotionSchema } from '../schemas'
+import { cacheTags } from '../queryCache'
+import type { RequestOptions } from '../client'
+import type { Promotion, PromotionRequest, PromotionsListParams } from '../types'
+
+/**
+ * Listar promoções de uma loja (inclui as válidas para todas as lojas), na ordem de prioridade
+ */
+export function getPromotions(
+  params: PromotionsListParams,
+  options?: RequestOptions<Promotion[]>
+): Promise<Promotion[]> {
+  return request<Promotion[]>('/promotions', {
+    params,
+    ...options,
+    schema: array(promotionSchema),
+    tags: [cacheTags.promotions(params.store_id)],
+  })
+}
+
+/**
+ * Criar promoção
+ */
+export function createPromotion(data: PromotionRequest): Promise<Promotion> {
+  return request<Promotion>('/promotions', {
+    method: 'POST',
+    body: data,
+    schema: promotionSchema,
+    // Promoções sem loja aparecem na lista de todas as lojas
+    invalidates: [cacheTags.promotions()],
+  })
+}
+
+/**
+ * Atualizar promoção
+ */
+export function updatePromotion(id: number, data: PromotionRequest): Promise<Promotion> {
+  return request<Promotion>(`/promotions/${id}`, {
+    method: 'PUT',
+    body: data,
+    schema: promotionSchema,
+    invalidates: [cacheTags.promotions()],
+  })
+}
+
+/**
+ * Deletar promoção (vendas já registradas mantêm o desconto)
+ */
+export function deletePromotion(id: number): Promise<{ message: string }> {
+  return request<{ message: string }>(`/promotions/${id}`, {
+    method: 'DELETE',
+    invalidates: [cacheTags.promotions()],
+  })
+}
@@ -0,0 +1,59 @@
+/**
+ * Endpoints de Regras de reajuste de preço (reutilizáveis entre lojas)
+ */
+
+import { request } from '../client'
+import { array, repricingRuleSchema } from '../schemas'
+import { cacheTags } from '../queryCache'
+import type { RequestOptions } from '../client'
+import type { RepricingRule, RepricingRuleRequest } from '../types'
+
+/**
+ * Listar regras de reajuste
+ */
+export function getRepricingRules(
+  options?: RequestOptions<RepricingRule[]>
+): Promise<RepricingRule[]> {
+  return request<RepricingRule[]>('/repricing-rules', {
+    ...options,
+    schema: array(repricingRuleSchema),
+    tags: [cacheTags.repricingRules()],
+  })
+}
+
+/**
+ * Criar regra de reajuste
+ */
+export function createRepricingRule(data: RepricingRuleRequest): Promise<RepricingRule> {
+  return request<RepricingRule>('/repricing-rules', {
+    method: 'POST',
+    body: data,
+    schema: repricingRuleSchema,
+    invalidates: [cacheTags.repricingRules()],
+  })
+}
+
+/**
+ * Atualizar regra de reajuste
+ */
+export function updateRepricingRule(
+  id: number,
+  data: RepricingRuleRequest
+): Promise<RepricingRule> {
+  return request<RepricingRule>(`/repricing-rules/${id}`, {
+    method: 'PUT',
+    body: data,
+    schema: repricingRuleSchema,
+    invalidates: [cacheTags.repricingRules()],
+  })
+}
+
+/**
+ * Deletar regra de reajuste
+ */
+export function deleteRepricingRule(id: number): Promise<{ message: string }> {
+  return request<{ message: string }>(`/repricing-rules/${id}`, {
+    method: 'DELETE',
+    invalidates: [cacheTags.repricingRules()],
+  })
+}
@@ -0,0 +1,54 @@
+/**
+ * Endpoints de Roles (definições de permissões editáveis pelo admin)
+ */
+
+import { request } from '../client'
+import { array, roleDefinitionSchema } from '../schemas'
+import { cacheTags } from '../queryCache'
+import type { RequestOptions } from '../client'
+import type { RoleDefinition, RoleRequest } from '../types'
+
+/**
+ * Listar roles (qualquer usuário autenticado: a interface depende deles)
+ */
+export function getRoles(options?: RequestOptions<RoleDefinition[]>): Promise<RoleDefinition[]> {
+  return request<RoleDefinition[]>('/roles', {
+    ...options,
+    schema: array(roleDefinitionSchema),
+    tags: [cacheTags.roles()],
+  })
+}
+
+/**
+ * Criar role
+ */
+export function createRole(data: RoleRequest): Promise<RoleDefinition> {
+  return request<RoleDefinition>('/roles', {
+    method: 'POST',
+    body: data,
+    schema: roleDefinitionSchema,
+    invalidates: [cacheTags.roles()],
+  })
+}
+
+/**
+ * Atualizar role
+ */
+export function updateRole(id: number, data: RoleRequest): Promise<RoleDefinition> {
+  return request<RoleDefinition>(`/roles/${id}`, {
+    method: 'PUT',
+    body: data,
+    schema: roleDefinitionSchema,
+    invalidates: [cacheTags.roles()],
+  })
+}
+
+/**
+ * Deletar role (409 se ainda houver usuários com ele)
+ */
+export function deleteRole(id: number): Promise<{ message: string }> {
+  return request<{ message: string }>(`/roles/${id}`, {
+    method: 'DELETE',
+    invalidates: [cacheTags.roles()],
+  })
+}
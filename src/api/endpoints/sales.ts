@@ -3,6 +3,9 @@
  */
 
 import { request } from '../client'
+import { paginated, saleSchema } from '../schemas'
+import { cacheTags } from '../queryCache'
+import type { RequestOptions } from '../client'
 import type { CreateSaleRequest, PaginatedResponse, Sale, SalesListParams } from '../types'
 
 /**
@@ -11,10 +14,14 @@ import type { CreateSaleRequest, PaginatedResponse, Sale, SalesListParams } from
  */
 export function getSales(
   storeId: number,
-  params?: SalesListParams
+  params?: SalesListParams,
+  options?: RequestOptions<PaginatedResponse<Sale>>
 ): Promise<PaginatedResponse<Sale>> {
   return request<PaginatedResponse<Sale>>(`/stores/${storeId}/sales`, {
     params,
+    ...options,
+    schema: paginated(saleSchema),
+    tags: [cacheTags.sales(storeId)],
   })
 }
 
@@ -22,7 +29,9 @@ export function getSales(
  * Obter uma venda
  */
 export function getSale(storeId: number, id: number): Promise<Sale> {
-  return request<Sale>(`/stores/${storeId}/sales/${id}`)
+  return request<Sale>(`/stores/${storeId}/sales/${id}`, {
+    schema: saleSchema,
+  })
 }
 
 /**
@@ -32,5 +41,8 @@ export function createSale(storeId: number, data: CreateSaleRequest): Promise<Sa
   return request<Sale>(`/stores/${storeId}/sales`, {
     method: 'POST',
     body: data,
+    schema: saleSchema,
+    // A venda baixa estoque: listas de produtos da loja e de vendas ficam desatualizadas
+    invalidates: [cacheTags.storeProducts(storeId), cacheTags.sales(storeId)],
   })
 }
@@ -0,0 +1,60 @@
+/**
+ * Endpoints de Visualizações salvas (filtros, ordenação e colunas nomeados de uma lista)
+ */
+
+import { request } from '../client'
+import { array, savedViewSchema } from '../schemas'
+import { cacheTags } from '../queryCache'
+import type { RequestOptions } from '../client'
+import type { SavedView, SavedViewRequest, SavedViewsListParams } from '../types'
+
+/**
+ * Listar visualizações de uma lista: as pessoais do usuário e as compartilhadas com a loja
+ */
+export function getSavedViews(
+  params: SavedViewsListParams,
+  options?: RequestOptions<SavedView[]>
+): Promise<SavedView[]> {
+  return request<SavedView[]>('/saved-views', {
+    params,
+    ...options,
+    schema: array(savedViewSchema),
+    tags: [cacheTags.savedViews(params.list)],
+  })
+}
+
+/**
+ * Criar visualização (visibility = store exige `saved-view.share` na loja)
+ */
+export function createSavedView(data: SavedViewRequest): Promise<SavedView> {
+  return request<SavedView>('/saved-views', {
+    method: 'POST',
+    body: data,
+    schema: savedViewSchema,
+    invalidates: [cacheTags.savedViews(data.list)],
+  })
+}
+
+/**
+ * Atualizar visualização (nome, visibilidade ou filtros)
+ */
+export function updateSavedView(id: number, data: SavedViewRequest): Promise<SavedView> {
+  return request<SavedView>(`/saved-views/${id}`, {
+    method: 'PUT',
+    body: data,
+    schema: savedViewSchema,
+    invalidates: [cacheTags.savedViews(data.list)],
+  })
+}
+
+/**
+ * Deletar visualização (autor, ou quem compartilha visualizações na loja)
+ */
+export function deleteSavedView(
+  view: Pick<SavedView, 'id' | 'list'>
+): Promise<{ message: string }> {
+  return request<{ message: string }>(`/saved-views/${view.id}`, {
+    method: 'DELETE',
+    invalidates: [cacheTags.savedViews(view.list)],
+  })
+}
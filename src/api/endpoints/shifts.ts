@@ -0,0 +1,96 @@
+/**
+ * Endpoints de Turnos de caixa (abertura, movimentações e fechamento por loja e vendedor)
+ */
+
+import { request } from '../client'
+import { cashMovementSchema, nullable, paginated, shiftSchema } from '../schemas'
+import { cacheTags } from '../queryCache'
+import type { RequestOptions } from '../client'
+import type {
+  CashMovement,
+  CashMovementRequest,
+  CloseShiftRequest,
+  OpenShiftRequest,
+  PaginatedResponse,
+  Shift,
+  ShiftsListParams,
+} from '../types'
+
+/**
+ * Listar turnos de uma loja (histórico)
+ */
+export function getShifts(
+  storeId: number,
+  params?: ShiftsListParams,
+  options?: RequestOptions<PaginatedResponse<Shift>>
+): Promise<PaginatedResponse<Shift>> {
+  return request<PaginatedResponse<Shift>>(`/stores/${storeId}/shifts`, {
+    params,
+    ...options,
+    schema: paginated(shiftSchema),
+    tags: [cacheTags.shifts(storeId)],
+  })
+}
+
+/**
+ * Turno aberto do usuário autenticado na loja (null se não houver)
+ */
+export function getCurrentShift(storeId: number): Promise<Shift | null> {
+  // `{ data: null }` chega desembrulhado como null
+  return request<Shift | null>(`/stores/${storeId}/shifts/current`, {
+    schema: nullable(shiftSchema),
+  })
+}
+
+/**
+ * Obter um turno (inclui as movimentações)
+ */
+export function getShift(storeId: number, id: number): Promise<Shift> {
+  return request<Shift>(`/stores/${storeId}/shifts/${id}`, {
+    schema: shiftSchema,
+  })
+}
+
+/**
+ * Abrir turno para o usuário autenticado (um turno aberto por usuário e loja)
+ */
+export function openShift(storeId: number, data: OpenShiftRequest): Promise<Shift> {
+  return request<Shift>(`/stores/${storeId}/shifts`, {
+    method: 'POST',
+    body: data,
+    schema: shiftSchema,
+    invalidates: [cacheTags.shifts(storeId)],
+  })
+}
+
+/**
+ * Registrar entrada ou saída de dinheiro (apenas turnos abertos)
+ */
+export function addCashMovement(
+  storeId: number,
+  shiftId: number,
+  data: CashMovementRequest
+): Promise<CashMovement> {
+  return request<CashMovement>(`/stores/${storeId}/shifts/${shiftId}/movements`, {
+    method: 'POST',
+    body: data,
+    schema: cashMovementSchema,
+    invalidates: [cacheTags.shifts(storeId)],
+  })
+}
+
+/**
+ * Fechar turno com a contagem da gaveta e os valores conferidos (não pode ser reaberto)
+ */
+export function closeShift(
+  storeId: number,
+  shiftId: number,
+  data: CloseShiftRequest
+): Promise<Shift> {
+  return request<Shift>(`/stores/${storeId}/shifts/${shiftId}/close`, {
+    method: 'POST',
+    body: data,
+    schema: shiftSchema,
+    invalidates: [cacheTags.shifts(storeId)],
+  })
+}
@@ -3,6 +3,9 @@
  */
 
 import { request } from '../client'
+import { paginated, storeProductSchema } from '../schemas'
+import { cacheTags } from '../queryCache'
+import type { RequestOptions } from '../client'
 import type {
   CreateStoreProductRequest,
   PaginatedResponse,
@@ -17,10 +20,14 @@ import type {
  */
 export function getStoreProducts(
   storeId: number,
-  params?: StoreProductsListParams
+  params?: StoreProductsListParams,
+  options?: RequestOptions<PaginatedResponse<StoreProduct>>
 ): Promise<PaginatedResponse<StoreProduct>> {
   return request<PaginatedResponse<StoreProduct>>(`/stores/${storeId}/products`, {
     params,
+    ...options,
+    schema: paginated(storeProductSchema),
+    tags: [cacheTags.storeProducts(storeId)],
   })
 }
 
@@ -28,7 +35,9 @@ export function getStoreProducts(
  * Obter um produto do inventário
  */
 export function getStoreProduct(storeId: number, id: number): Promise<StoreProduct> {
-  return request<StoreProduct>(`/stores/${storeId}/products/${id}`)
+  return request<StoreProduct>(`/stores/${storeId}/products/${id}`, {
+    schema: storeProductSchema,
+  })
 }
 
 /**
@@ -41,6 +50,8 @@ export function createStoreProduct(
   return request<StoreProduct>(`/stores/${storeId}/products`, {
     method: 'POST',
     body: data,
+    schema: storeProductSchema,
+    invalidates: [cacheTags.storeProducts(storeId)],
   })
 }
 
@@ -55,6 +66,8 @@ export function updateStoreProduct(
   return request<StoreProduct>(`/stores/${storeId}/products/${id}`, {
     method: 'PUT',
     body: data,
+    schema: storeProductSchema,
+    invalidates: [cacheTags.storeProducts(storeId)],
   })
 }
 
@@ -64,6 +77,7 @@ export function updateStoreProduct(
 export function deleteStoreProduct(storeId: number, id: number): Promise<{ message: string }> {
   return request<{ message: string }>(`/stores/${storeId}/products/${id}`, {
     method: 'DELETE',
+    invalidates: [cacheTags.storeProducts(storeId)],
   })
 }
 
@@ -77,5 +91,6 @@ export function withdrawInventory(
   return request<{ message: string }>(`/stores/${storeId}/inventory/withdraw`, {
     method: 'POST',
     body: data,
+    invalidates: [cacheTags.storeProducts(storeId)],
   })
 }
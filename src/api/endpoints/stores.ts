@@ -3,6 +3,9 @@
  */
 
 import { request } from '../client'
+import { paginated, storeSchema } from '../schemas'
+import { cacheTags } from '../queryCache'
+import type { RequestOptions } from '../client'
 import type {
   CreateStoreRequest,
   PaginatedResponse,
@@ -14,9 +17,15 @@ import type {
 /**
  * Listar lojas
  */
-export function getStores(params?: StoresListParams): Promise<PaginatedResponse<Store>> {
+export function getStores(
+  params?: StoresListParams,
+  options?: RequestOptions<PaginatedResponse<Store>>
+): Promise<PaginatedResponse<Store>> {
   return request<PaginatedResponse<Store>>('/stores', {
     params,
+    ...options,
+    schema: paginated(storeSchema),
+    tags: [cacheTags.stores()],
   })
 }
 
@@ -24,7 +33,9 @@ export function getStores(params?: StoresListParams): Promise<PaginatedResponse<
  * Obter uma loja
  */
 export function getStore(id: number): Promise<Store> {
-  return request<Store>(`/stores/${id}`)
+  return request<Store>(`/stores/${id}`, {
+    schema: storeSchema,
+  })
 }
 
 /**
@@ -34,6 +45,8 @@ export function createStore(data: CreateStoreRequest): Promise<Store> {
   return request<Store>('/stores', {
     method: 'POST',
     body: data,
+    schema: storeSchema,
+    invalidates: [cacheTags.stores()],
   })
 }
 
@@ -44,6 +57,8 @@ export function updateStore(id: number, data: UpdateStoreRequest): Promise<Store
   return request<Store>(`/stores/${id}`, {
     method: 'PUT',
     body: data,
+    schema: storeSchema,
+    invalidates: [cacheTags.stores()],
   })
 }
 
@@ -53,5 +68,6 @@ export function updateStore(id: number, data: UpdateStoreRequest): Promise<Store
 export function deleteStore(id: number): Promise<{ message: string }> {
   return request<{ message: string }>(`/stores/${id}`, {
     method: 'DELETE',
+    invalidates: [cacheTags.stores()],
   })
 }
@@ -3,6 +3,8 @@
  */
 
 import { request } from '../client'
+import { paginated, userSchema } from '../schemas'
+import type { RequestOptions } from '../client'
 import type {
   CreateUserRequest,
   PaginatedResponse,
@@ -14,9 +16,14 @@ import type {
 /**
  * Listar usuários
  */
-export function getUsers(params?: UsersListParams): Promise<PaginatedResponse<User>> {
+export function getUsers(
+  params?: UsersListParams,
+  options?: RequestOptions<PaginatedResponse<User>>
+): Promise<PaginatedResponse<User>> {
   return request<PaginatedResponse<User>>('/users', {
     params,
+    ...options,
+    schema: paginated(userSchema),
   })
 }
 
@@ -24,7 +31,9 @@ export function getUsers(params?: UsersListParams): Promise<PaginatedResponse<Us
  * Obter um usuário
  */
 export function getUser(id: number): Promise<User> {
-  return request<User>(`/users/${id}`)
+  return request<User>(`/users/${id}`, {
+    schema: userSchema,
+  })
 }
 
 /**
@@ -34,6 +43,7 @@ export function createUser(data: CreateUserRequest): Promise<User> {
   return request<User>('/users', {
     method: 'POST',
     body: data,
+    schema: userSchema,
   })
 }
 
@@ -44,6 +54,7 @@ export function updateUser(id: number, data: UpdateUserRequest): Promise<User> {
   return request<User>(`/users/${id}`, {
     method: 'PUT',
     body: data,
+    schema: userSchema,
   })
 }
 
@@ -0,0 +1,78 @@
+/**
+ * Interceptors padrão de autenticação
+ */
+
+import { ApiError } from '../types'
+import type { Interceptor } from './registry'
+
+const TOKEN_KEY = 'token'
+
+/**
+ * Helper para obter o token de autenticação
+ * Usa localStorage diretamente (a store também salva lá)
+ */
+function getToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY)
+}
+
+/**
+ * Helper para acessar a store de autenticação sem import circular
+ * (a store importa os endpoints, que importam o cliente)
+ */
+async function getAuthStore() {
+  const { useAuthStore } = await import('@/stores/auth')
+  return useAuthStore()
+}
+
+/**
+ * Helper para encerrar a sessão em caso de 401 sem renovação possível
+ * Tenta usar a store, com fallback para localStorage
+ */
+async function expireSession() {
+  try {
+    const authStore = await getAuthStore()
+    authStore.expireSession()
+  } catch {
+    // Fallback: apenas limpar localStorage e redirecionar, preservando a rota atual
+    localStorage.removeItem(TOKEN_KEY)
+    const redirect = encodeURIComponent(window.location.pathname + window.location.search)
+    window.location.href = `/login?redirect=${redirect}`
+  }
+}
+
+/**
+ * Adiciona o header Authorization (Bearer) nas requisições autenticadas
+ */
+export const authHeaderInterceptor: Interceptor = {
+  name: 'auth-header',
+  onRequest(context) {
+    if (!context.requiresAuth) return
+    const token = getToken()
+    if (token) {
+      context.headers.Authorization = `Bearer ${token}`
+    }
+  },
+}
+
+/**
+ * 401: não autenticado
+ * Tenta renovar o token (uma única renovação para todos os 401 simultâneos) e repete
+ * a requisição original. Sem renovação possível, encerra a sessão preservando a rota.
+ */
+export const unauthorizedInterceptor: Interceptor = {
+  name: 'unauthorized',
+  async onError(error, context) {
+    if (!(error instanceof ApiError) || error.status !== 401) return
+    // Login/refresh com credenciais inválidas: o chamador trata o erro
+    if (!context.requiresAuth) return
+
+    if (!context.isReplay) {
+      const authStore = await getAuthStore()
+      if (await authStore.refreshSession()) {
+        return { data: await context.replay() }
+      }
+    }
+
+    expireSession()
+  },
+}
@@ -0,0 +1,7 @@
+/**
+ * Barrel export do pipeline de interceptors e dos interceptors padrão
+ */
+
+export * from './registry'
+export * from './auth'
+export * from './unwrap'
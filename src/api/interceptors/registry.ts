@@ -0,0 +1,133 @@
+/**
+ * Pipeline de interceptors do cliente HTTP
+ * Permite adicionar comportamento transversal (auth, logs, headers, telemetria)
+ * sem editar `request()`. Os interceptors são registrados no bootstrap (main.ts)
+ * e executados na ordem de registro.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE'
+
+/**
+ * Contexto de uma requisição, compartilhado por todos os interceptors
+ */
+export interface RequestContext {
+  path: string
+  method: HttpMethod
+  /** URL final (base + path + query string) */
+  url: string
+  /** Headers enviados; interceptors de request podem alterá-los */
+  headers: Record<string, string>
+  body?: unknown
+  params?: unknown
+  requiresAuth: boolean
+  /** Espaço livre para interceptors guardarem dados entre as fases (ex.: início da requisição) */
+  meta: Record<string, unknown>
+  /** true quando esta execução é uma repetição feita via `replay()` */
+  isReplay: boolean
+  /**
+   * Executa a requisição original novamente (passando outra vez pelos interceptors,
+   * ex.: com o token renovado). Retorna o corpo já processado.
+   */
+  replay: () => Promise<unknown>
+}
+
+export interface ResponseContext extends RequestContext {
+  response: Response
+}
+
+/**
+ * Resultado de um interceptor de erro que recuperou a requisição
+ */
+export interface InterceptorRecovery {
+  data: unknown
+}
+
+export interface Interceptor {
+  /** Identificador usado para evitar registro duplicado e para remoção */
+  name: string
+  /** Executado antes do envio; pode alterar headers/URL do contexto */
+  onRequest?: (context: RequestContext) => void | Promise<void>
+  /**
+   * Executado após uma resposta de sucesso, com o corpo já parseado.
+   * Retorna o novo corpo (ou undefined para mantê-lo).
+   */
+  onResponse?: (data: unknown, context: ResponseContext) => unknown | Promise<unknown>
+  /**
+   * Executado quando a requisição falha (após esgotar as tentativas).
+   * Pode lançar outro erro, ou retornar `{ data }` para resolver a requisição.
+   */
+  onError?: (
+    error: unknown,
+    context: RequestContext
+  ) => void | InterceptorRecovery | Promise<void | InterceptorRecovery>
+}
+
+const interceptors: Interceptor[] = []
+
+/**
+ * Registra um interceptor. Retorna uma função para removê-lo.
+ * Registrar de novo um interceptor com o mesmo nome substitui o anterior.
+ */
+export function registerInterceptor(interceptor: Interceptor): () => void {
+  const existing = interceptors.findIndex(i => i.name === interceptor.name)
+  if (existing >= 0) {
+    interceptors.splice(existing, 1, interceptor)
+  } else {
+    interceptors.push(interceptor)
+  }
+  return () => unregisterInterceptor(interceptor.name)
+}
+
+/**
+ * Remove um interceptor pelo nome
+ */
+export function unregisterInterceptor(name: string) {
+  const index = interceptors.findIndex(i => i.name === name)
+  if (index >= 0) {
+    interceptors.splice(index, 1)
+  }
+}
+
+export async function runRequestInterceptors(context: RequestContext) {
+  for (const interceptor of interceptors) {
+    await interceptor.onRequest?.(context)
+  }
+}
+
+export async function runResponseInterceptors(
+  data: unknown,
+  context: ResponseContext
+): Promise<unknown> {
+  let current = data
+  for (const interceptor of interceptors) {
+    if (!interceptor.onResponse) continue
+    const next = await interceptor.onResponse(current, context)
+    if (next !== undefined) {
+      current = next
+    }
+  }
+  return current
+}
+
+/**
+ * Executa os interceptors de erro em ordem; o primeiro que recuperar encerra a cadeia.
+ * Um interceptor que lança substitui o erro visto pelos seguintes.
+ */
+export async function runErrorInterceptors(
+  error: unknown,
+  context: RequestContext
+): Promise<{ recovered: InterceptorRecovery | null; error: unknown }> {
+  let current = error
+  for (const interceptor of interceptors) {
+    if (!interceptor.onError) continue
+    try {
+      const result = await interceptor.onError(current, context)
+      if (result) {
+        return { recovered: result, error: current }
+      }
+    } catch (replaced) {
+      current = replaced
+    }
+  }
+  return { recovered: null, error: current }
+}
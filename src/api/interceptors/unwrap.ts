@@ -0,0 +1,20 @@
+/**
+ * Interceptor padrão de desembrulho das respostas
+ */
+
+import type { Interceptor } from './registry'
+
+/**
+ * Se a resposta tem formato { data: T, meta?: ... }:
+ * - com meta (paginada): mantém o objeto completo
+ * - sem meta: retorna apenas data
+ */
+export const unwrapDataInterceptor: Interceptor = {
+  name: 'unwrap-data',
+  onResponse(data) {
+    if (data && typeof data === 'object' && 'data' in data && !('meta' in data)) {
+      return (data as { data: unknown }).data
+    }
+    return data
+  },
+}
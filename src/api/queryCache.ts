@@ -0,0 +1,168 @@
+/**
+ * Cache de consultas (stale-while-revalidate) compartilhado entre as views
+ * - Chave: endpoint + parâmetros (montada pelo `request()`)
+ * - Dados "frescos" (< staleTime) são retornados direto do cache
+ * - Dados "velhos" (< ttl) são retornados na hora e revalidados em segundo plano
+ * - Requisições idênticas concorrentes compartilham a mesma promise
+ * - Mutações invalidam por tag (ex.: `store-products:12`)
+ */
+
+export interface QueryCacheOptions<T> {
+  /** Tempo (ms) em que o dado é considerado fresco (padrão: 30s) */
+  staleTime?: number
+  /** Tempo (ms) máximo em que um dado velho ainda pode ser servido (padrão: 5min) */
+  ttl?: number
+  /** Ignora o cache e busca novamente (o resultado atualiza o cache) */
+  force?: boolean
+  /** Chamado quando uma revalidação em segundo plano traz dados novos */
+  onRevalidate?: (data: T) => void
+}
+
+interface CacheEntry {
+  data: unknown
+  hasData: boolean
+  updatedAt: number
+  ttl: number
+  tags: string[]
+  invalidated: boolean
+  inflight: Promise<unknown> | null
+}
+
+const DEFAULT_STALE_TIME_MS = 30 * 1000
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+
+const entries = new Map<string, CacheEntry>()
+
+/**
+ * Tags usadas pelos endpoints, no formato `recurso` ou `recurso:id`.
+ * Invalidar `recurso` invalida também todas as tags `recurso:*`.
+ */
+export const cacheTags = {
+  stores: () => 'stores',
+  roles: () => 'roles',
+  savedViews: (list?: string) => (list === undefined ? 'saved-views' : `saved-views:${list}`),
+  repricingRules: () => 'repricing-rules',
+  promotions: (storeId?: number) =>
+    storeId === undefined ? 'promotions' : `promotions:${storeId}`,
+  storeProducts: (storeId?: number) =>
+    storeId === undefined ? 'store-products' : `store-products:${storeId}`,
+  sales: (storeId?: number) => (storeId === undefined ? 'sales' : `sales:${storeId}`),
+  shifts: (storeId?: number) => (storeId === undefined ? 'shifts' : `shifts:${storeId}`),
+}
+
+function matchesTag(entryTag: string, tag: string): boolean {
+  return entryTag === tag || entryTag.startsWith(`${tag}:`)
+}
+
+function evictExpired(now: number) {
+  entries.forEach((entry, key) => {
+    if (!entry.inflight && now - entry.updatedAt > entry.ttl) {
+      entries.delete(key)
+    }
+  })
+}
+
+function fetchInto<T>(key: string, entry: CacheEntry, fetcher: () => Promise<T>): Promise<T> {
+  if (entry.inflight) {
+    return entry.inflight as Promise<T>
+  }
+
+  const promise = fetcher()
+    .then(data => {
+      // Se a entrada foi invalidada durante a busca, o resultado já nasce velho
+      if (entry.inflight === promise) {
+        entry.data = data
+        entry.hasData = true
+        entry.updatedAt = Date.now()
+        entry.invalidated = false
+      }
+      return data
+    })
+    .finally(() => {
+      if (entry.inflight === promise) {
+        entry.inflight = null
+      }
+    })
+
+  entry.inflight = promise
+  entries.set(key, entry)
+  return promise
+}
+
+/**
+ * Executa uma consulta usando o cache
+ */
+export function cachedQuery<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: QueryCacheOptions<T> & { tags?: string[] } = {}
+): Promise<T> {
+  const {
+    staleTime = DEFAULT_STALE_TIME_MS,
+    ttl = DEFAULT_TTL_MS,
+    force = false,
+    onRevalidate,
+    tags = [],
+  } = options
+
+  const now = Date.now()
+  evictExpired(now)
+
+  let entry = entries.get(key)
+  if (!entry) {
+    entry = {
+      data: undefined,
+      hasData: false,
+      updatedAt: 0,
+      ttl,
+      tags,
+      invalidated: false,
+      inflight: null,
+    }
+    entries.set(key, entry)
+  }
+  entry.tags = Array.from(new Set([...entry.tags, ...tags]))
+  entry.ttl = Math.max(entry.ttl, ttl)
+
+  if (!force && entry.hasData && !entry.invalidated) {
+    const age = now - entry.updatedAt
+
+    if (age < staleTime) {
+      return Promise.resolve(entry.data as T)
+    }
+
+    if (age < ttl) {
+      // Stale-while-revalidate: entrega o dado velho e atualiza em segundo plano
+      fetchInto(key, entry, fetcher)
+        .then(data => onRevalidate?.(data))
+        .catch(err => console.warn('[cache] Falha ao revalidar', key, err))
+      return Promise.resolve(entry.data as T)
+    }
+  }
+
+  if (force) {
+    entry.inflight = null
+  }
+  return fetchInto(key, entry, fetcher)
+}
+
+/**
+ * Invalida as consultas que tenham qualquer uma das tags (ou tags filhas: `sales` invalida `sales:3`).
+ * A próxima leitura busca da API (buscas em andamento deixam de ser compartilhadas).
+ */
+export function invalidateTags(...tags: string[]) {
+  if (tags.length === 0) return
+  entries.forEach(entry => {
+    if (entry.tags.some(entryTag => tags.some(tag => matchesTag(entryTag, tag)))) {
+      entry.invalidated = true
+      entry.inflight = null
+    }
+  })
+}
+
+/**
+ * Esvazia o cache (ex.: troca de usuário/token)
+ */
+export function clearQueryCache() {
+  entries.clear()
+}
@@ -0,0 +1,466 @@
+/**
+ * Validação em tempo de execução das respostas da API
+ * Cada schema espelha uma interface de `types.ts`. Os schemas são passados para
+ * `request()` pelos endpoints; divergências de contrato são detectadas na fronteira
+ * em vez de aparecerem depois como `NaN` ou `undefined` nas telas.
+ */
+
+import type {
+  CashMovement,
+  Customer,
+  ImpersonationResponse,
+  LoginResponse,
+  PaginatedResponse,
+  Product,
+  Promotion,
+  RefreshTokenResponse,
+  RoleDefinition,
+  Sale,
+  SaleDiscount,
+  SaleItem,
+  SalePayment,
+  SaleSummary,
+  RepricingRule,
+  SavedView,
+  SellerInventoryItem,
+  Shift,
+  Store,
+  StoreMembership,
+  StoreProduct,
+  User,
+} from './types'
+import type { PermissionGrants } from '@/permissions/policy'
+
+export interface SchemaIssue {
+  /** Caminho do campo, ex.: `data[3].sale_price` */
+  path: string
+  expected: string
+  received: string
+}
+
+/**
+ * Um schema valida um valor e acumula os problemas encontrados.
+ * `T` é apenas o tipo descrito pelo schema (usado para casar schema e endpoint).
+ */
+export interface Schema<T> {
+  readonly description: string
+  check(value: unknown, path: string, issues: SchemaIssue[]): void
+  /** Marcador de tipo, nunca preenchido */
+  readonly __type?: T
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'string') return `string(${JSON.stringify(value.slice(0, 40))})`
+  return typeof value
+}
+
+function primitive<T>(description: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    description,
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push({ path, expected: description, received: describe(value) })
+      }
+    },
+  }
+}
+
+// ============================================================================
+// Primitivos e combinadores
+// ============================================================================
+
+export const number = primitive<number>(
+  'number',
+  value => typeof value === 'number' && Number.isFinite(value)
+)
+
+export const string = primitive<string>('string', value => typeof value === 'string')
+
+export const boolean = primitive<boolean>('boolean', value => typeof value === 'boolean')
+
+/**
+ * Decimal serializado como string (ex.: "12.50"), precisa ser conversível com parseFloat
+ */
+export const decimalString = primitive<string>(
+  'decimal string',
+  value => typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))
+)
+
+export function oneOf<const T extends readonly string[]>(...values: T): Schema<T[number]> {
+  return primitive<T[number]>(values.map(v => `'${v}'`).join(' | '), value =>
+    values.includes(value as string)
+  )
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    description: `${schema.description} | null`,
+    check(value, path, issues) {
+      if (value !== null) schema.check(value, path, issues)
+    },
+  }
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    description: `${schema.description} | undefined`,
+    check(value, path, issues) {
+      if (value !== undefined) schema.check(value, path, issues)
+    },
+  }
+}
+
+/**
+ * Relação opcional: o backend omite o campo ou envia null quando não há vínculo
+ */
+function relation<T>(schema: Schema<T>): Schema<T | undefined> {
+  return optional(nullable(schema)) as Schema<T | undefined>
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: 'array', received: describe(value) })
+        return
+      }
+      value.forEach((entry, index) => item.check(entry, `${path}[${index}]`, issues))
+    },
+  }
+}
+
+/**
+ * Objeto usado como dicionário: chaves livres, todos os valores no mesmo formato
+ */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    description: `Record<string, ${value.description}>`,
+    check(input, path, issues) {
+      if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        issues.push({ path, expected: 'object', received: describe(input) })
+        return
+      }
+      for (const [key, entry] of Object.entries(input)) {
+        value.check(entry, path ? `${path}.${key}` : key, issues)
+      }
+    },
+  }
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> }
+
+/**
+ * Objeto com campos conhecidos; campos extras são permitidos (o backend pode acrescentar dados)
+ */
+export function object<T>(description: string, shape: Shape<T>): Schema<T> {
+  return {
+    description,
+    check(value, path, issues) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, expected: description, received: describe(value) })
+        return
+      }
+      const record = value as Record<string, unknown>
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        shape[key].check(record[key], path ? `${path}.${key}` : key, issues)
+      }
+    },
+  }
+}
+
+// ============================================================================
+// Schemas das entidades
+// ============================================================================
+
+const storeRef = object<{ id: number; name: string }>('StoreRef', { id: number, name: string })
+
+export const roleDefinitionSchema = object<RoleDefinition>('RoleDefinition', {
+  id: number,
+  name: string,
+  label: string,
+  requires_store: boolean,
+  is_system: boolean,
+  // Permissões desconhecidas (backend mais novo) são aceitas e ignoradas pelo `can()`
+  permissions: record(oneOf('all', 'own-store')) as Schema<PermissionGrants>,
+  created_at: string,
+  updated_at: string,
+})
+
+export const userSchema = object<User>('User', {
+  id: number,
+  name: string,
+  email: string,
+  role: string,
+  store_id: nullable(number),
+  is_active: boolean,
+  has_pin: optional(boolean),
+  store: relation(storeRef),
+  memberships: optional(
+    array(object<StoreMembership>('StoreMembership', { store: storeRef, role: string }))
+  ),
+  role_definitions: optional(array(roleDefinitionSchema)),
+  created_at: string,
+  updated_at: string,
+})
+
+export const storeSchema = object<Store>('Store', {
+  id: number,
+  name: string,
+  address: nullable(string),
+  phone: nullable(string),
+  is_active: boolean,
+  created_at: string,
+  updated_at: string,
+})
+
+export const productSchema = object<Product>('Product', {
+  id: number,
+  brand: string,
+  name: string,
+  flavor: string,
+  created_at: string,
+  updated_at: string,
+})
+
+const productRef = object<NonNullable<StoreProduct['product']>>('ProductRef', {
+  id: number,
+  brand: string,
+  name: string,
+  flavor: string,
+})
+
+export const storeProductSchema = object<StoreProduct>('StoreProduct', {
+  id: number,
+  store_id: number,
+  product_id: number,
+  cost_price: decimalString,
+  sale_price: decimalString,
+  stock_quantity: number,
+  min_stock_level: number,
+  is_active: boolean,
+  seller_quantity: optional(number),
+  available_quantity: optional(number),
+  product: relation(productRef),
+  created_at: string,
+  updated_at: string,
+})
+
+export const sellerInventoryItemSchema = object<SellerInventoryItem>('SellerInventoryItem', {
+  store_product_id: number,
+  quantity: number,
+  store_product: relation(storeProductSchema),
+})
+
+const saleSummarySchema = object<SaleSummary>('SaleSummary', {
+  id: number,
+  store_id: number,
+  total_amount: decimalString,
+  sale_date: string,
+  created_at: string,
+})
+
+export const customerSchema = object<Customer>('Customer', {
+  id: number,
+  name: string,
+  phone: string,
+  total_purchases: number,
+  sales: optional(array(saleSummarySchema)),
+  created_at: string,
+  updated_at: string,
+})
+
+export const saleItemSchema = object<SaleItem>('SaleItem', {
+  id: number,
+  sale_id: number,
+  store_product_id: number,
+  quantity: number,
+  unit_price: decimalString,
+  subtotal: decimalString,
+  discount_amount: optional(decimalString),
+})
+
+const saleDiscountSchema = object<SaleDiscount>('SaleDiscount', {
+  source: oneOf('promotion', 'item', 'cart'),
+  promotion_id: nullable(number),
+  store_product_id: nullable(number),
+  mode: nullable(oneOf('percent', 'fixed')),
+  value: nullable(number),
+  amount: decimalString,
+  promotion: relation(
+    object<NonNullable<SaleDiscount['promotion']>>('PromotionRef', {
+      id: number,
+      name: string,
+    })
+  ),
+})
+
+const salePaymentSchema = object<SalePayment>('SalePayment', {
+  method: oneOf('cash', 'pix', 'debit', 'credit'),
+  amount: decimalString,
+  installments: nullable(number),
+})
+
+export const saleSchema = object<Sale>('Sale', {
+  id: number,
+  store_id: number,
+  user_id: number,
+  customer_id: nullable(number),
+  total_amount: decimalString,
+  sale_date: string,
+  notes: nullable(string),
+  created_at: string,
+  updated_at: string,
+  items: optional(array(saleItemSchema)),
+  discount_amount: optional(decimalString),
+  discounts: optional(array(saleDiscountSchema)),
+  payments: optional(array(salePaymentSchema)),
+  shift_id: optional(nullable(number)),
+  cash_received: optional(nullable(decimalString)),
+  change_amount: optional(nullable(decimalString)),
+  customer: relation(
+    object<NonNullable<Sale['customer']>>('CustomerRef', {
+      id: number,
+      name: string,
+      phone: string,
+    })
+  ),
+  user: relation(object<NonNullable<Sale['user']>>('UserRef', { id: number, name: string })),
+})
+
+export const savedViewSchema = object<SavedView>('SavedView', {
+  id: number,
+  list: oneOf('store-products', 'sales', 'customers', 'users'),
+  name: string,
+  visibility: oneOf('personal', 'store'),
+  store_id: nullable(number),
+  query: record(string),
+  user: object<SavedView['user']>('UserRef', { id: number, name: string }),
+  created_at: string,
+  updated_at: string,
+})
+
+export const promotionSchema = object<Promotion>('Promotion', {
+  id: number,
+  name: string,
+  kind: oneOf('bundle', 'nth-unit', 'combo'),
+  store_id: nullable(number),
+  brand: nullable(string),
+  product_ids: array(number),
+  quantity: nullable(number),
+  price: nullable(decimalString),
+  percent: nullable(number),
+  starts_at: nullable(string),
+  ends_at: nullable(string),
+  is_active: boolean,
+  created_at: string,
+  updated_at: string,
+})
+
+export const repricingRuleSchema = object<RepricingRule>('RepricingRule', {
+  id: number,
+  name: string,
+  method: oneOf('margin', 'markup', 'round'),
+  percent: nullable(number),
+  ending: nullable(oneOf('0.90', '0.99')),
+  match: object<RepricingRule['match']>('RepricingMatch', {
+    brand: string,
+    name: string,
+    flavor: string,
+  }),
+  user: object<RepricingRule['user']>('UserRef', { id: number, name: string }),
+  created_at: string,
+  updated_at: string,
+})
+
+export const cashMovementSchema = object<CashMovement>('CashMovement', {
+  id: number,
+  shift_id: number,
+  kind: oneOf('cash-in', 'cash-out'),
+  amount: decimalString,
+  reason: string,
+  created_at: string,
+  user: relation(
+    object<NonNullable<CashMovement['user']>>('UserRef', {
+      id: number,
+      name: string,
+    })
+  ),
+})
+
+export const shiftSchema = object<Shift>('Shift', {
+  id: number,
+  store_id: number,
+  user_id: number,
+  status: oneOf('open', 'closed'),
+  opening_float: decimalString,
+  opened_at: string,
+  closed_at: nullable(string),
+  closing_count: nullable(record(number)),
+  counted_amounts: nullable(record(decimalString)) as Schema<Shift['counted_amounts']>,
+  notes: nullable(string),
+  created_at: string,
+  updated_at: string,
+  movements: optional(array(cashMovementSchema)),
+  user: relation(
+    object<NonNullable<Shift['user']>>('UserRef', {
+      id: number,
+      name: string,
+    })
+  ),
+})
+
+export const loginResponseSchema = object<LoginResponse>('LoginResponse', {
+  token: string,
+  user: userSchema,
+  refresh_token: optional(string),
+  expires_in: optional(number),
+})
+
+export const impersonationResponseSchema = object<ImpersonationResponse>('ImpersonationResponse', {
+  token: string,
+  user: userSchema,
+  refresh_token: optional(string),
+  expires_in: optional(number),
+  impersonation_id: number,
+})
+
+export const refreshTokenResponseSchema = object<RefreshTokenResponse>('RefreshTokenResponse', {
+  token: string,
+  refresh_token: optional(string),
+  expires_in: optional(number),
+})
+
+export function paginated<T>(item: Schema<T>): Schema<PaginatedResponse<T>> {
+  return object<PaginatedResponse<T>>(`PaginatedResponse<${item.description}>`, {
+    data: array(item),
+    meta: object<PaginatedResponse<T>['meta']>('PaginationMeta', {
+      current_page: number,
+      per_page: number,
+      total: number,
+      last_page: number,
+      from: nullable(number),
+      to: nullable(number),
+    }),
+    links: optional(
+      object<NonNullable<PaginatedResponse<T>['links']>>('PaginationLinks', {
+        first: string,
+        last: string,
+        prev: nullable(string),
+        next: nullable(string),
+      })
+    ),
+  })
+}
+
+// ============================================================================
+// Execução
+// ============================================================================
+
+export function collectIssues<T>(schema: Schema<T>, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  schema.check(value, '', issues)
+  return issues
+}
@@ -3,6 +3,8 @@
  * Baseado em Docs/api.md
  */
 
+import type { Permission, PermissionGrants, Role } from '@/permissions/policy'
+
 // ============================================================================
 // Tipos Base de Entidades
 // ============================================================================
@@ -11,17 +13,37 @@ export interface User {
   id: number
   name: string
   email: string
-  role: 'admin' | 'manager' | 'seller'
+  role: Role
   store_id: number | null
   is_active: boolean
+  /** Usuário tem PIN cadastrado para desbloqueio rápido da tela */
+  has_pin?: boolean
   store?: {
     id: number
     name: string
   } | null
+  /** Lojas às quais o usuário tem acesso, cada uma com seu role (inclui a loja principal) */
+  memberships?: StoreMembership[]
+  /**
+   * Definições dos roles do próprio usuário (principal e das lojas), vindas com `/auth/me`
+   * e o login: qualquer usuário pode lê-las, ao contrário da lista completa de `/roles`
+   */
+  role_definitions?: RoleDefinition[]
   created_at: string
   updated_at: string
 }
 
+/**
+ * Vínculo do usuário com uma loja: o role vale apenas dentro dela
+ */
+export interface StoreMembership {
+  store: {
+    id: number
+    name: string
+  }
+  role: Role
+}
+
 export interface Store {
   id: number
   name: string
@@ -99,6 +121,12 @@ export interface Sale {
   created_at: string
   updated_at: string
   items?: SaleItem[]
+  discount_amount?: string // Soma de todos os descontos (promoções, itens e carrinho)
+  discounts?: SaleDiscount[]
+  payments?: SalePayment[]
+  shift_id?: number | null // Turno de caixa em que a venda foi registrada
+  cash_received?: string | null // Dinheiro entregue pelo cliente (pagamentos em dinheiro)
+  change_amount?: string | null // Troco devolvido
   customer?: {
     id: number
     name: string
@@ -117,6 +145,171 @@ export interface SaleItem {
   quantity: number
   unit_price: string // Decimal como string
   subtotal: string // Decimal como string
+  discount_amount?: string // Desconto do item (promoções + desconto no item + rateio do carrinho)
+}
+
+/** Como um desconto manual foi informado: percentual ou valor fixo em reais */
+export type DiscountMode = 'percent' | 'fixed'
+
+/** Origem de um desconto da venda */
+export type SaleDiscountSource = 'promotion' | 'item' | 'cart'
+
+/** Desconto registrado na venda (qual promoção ou desconto manual gerou qual valor) */
+export interface SaleDiscount {
+  source: SaleDiscountSource
+  promotion_id: number | null // source = promotion
+  store_product_id: number | null // Item afetado (null: desconto no carrinho)
+  mode: DiscountMode | null // source = item/cart
+  value: number | null // Percentual ou valor informado (item/cart)
+  amount: string // Decimal como string
+  promotion?: {
+    id: number
+    name: string
+  }
+}
+
+export type PaymentMethod = 'cash' | 'pix' | 'debit' | 'credit'
+
+/** Parte do valor da venda paga em uma forma de pagamento */
+export interface SalePayment {
+  method: PaymentMethod
+  amount: string // Decimal como string
+  installments: number | null // Apenas crédito (1 = à vista)
+}
+
+export type ShiftStatus = 'open' | 'closed'
+
+export type CashMovementKind = 'cash-in' | 'cash-out'
+
+/** Entrada ou saída de dinheiro da gaveta fora das vendas (ex.: fornecedor, fundo de troco) */
+export interface CashMovement {
+  id: number
+  shift_id: number
+  kind: CashMovementKind
+  amount: string // Decimal como string
+  reason: string
+  created_at: string
+  user?: {
+    id: number
+    name: string
+  }
+}
+
+/** Contagem da gaveta: quantidade por cédula/moeda (chave = valor em reais, ex.: "0.25") */
+export type DenominationCount = Record<string, number>
+
+/**
+ * Turno de caixa de um vendedor em uma loja (abertura, movimentações e fechamento)
+ * Fechado, não aceita mais alterações.
+ */
+export interface Shift {
+  id: number
+  store_id: number
+  user_id: number
+  status: ShiftStatus
+  opening_float: string // Fundo de troco na abertura
+  opened_at: string
+  closed_at: string | null
+  closing_count: DenominationCount | null // Contagem do dinheiro no fechamento
+  counted_amounts: Partial<Record<PaymentMethod, string>> | null // Conferido por forma (fechamento)
+  notes: string | null
+  created_at: string
+  updated_at: string
+  movements?: CashMovement[]
+  user?: {
+    id: number
+    name: string
+  }
+}
+
+/**
+ * Promoções aplicadas automaticamente no PDV:
+ * - `bundle`: N unidades dos produtos elegíveis por um preço fixo ("3 pods da marca X por R$ 120")
+ * - `nth-unit`: a cada N unidades do mesmo produto, uma com desconto ("2ª unidade 50% off")
+ * - `combo`: uma unidade de cada produto listado por um preço fixo ("combo A + B")
+ */
+export type PromotionKind = 'bundle' | 'nth-unit' | 'combo'
+
+export interface Promotion {
+  id: number
+  name: string
+  kind: PromotionKind
+  store_id: number | null // null = todas as lojas
+  brand: string | null // Elegíveis pela marca (bundle/nth-unit)
+  product_ids: number[] // Elegíveis por produto do catálogo; no combo, os itens do combo
+  quantity: number | null // bundle: unidades do pacote; nth-unit: N
+  price: string | null // bundle/combo: preço do conjunto (decimal como string)
+  percent: number | null // nth-unit: desconto na N-ésima unidade
+  starts_at: string | null // Date: YYYY-MM-DD (inclusive)
+  ends_at: string | null // Date: YYYY-MM-DD (inclusive)
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Definição de role mantida pelo backend
+ * Roles de sistema (admin, manager, seller) podem ter permissões editadas, mas não
+ * podem ser renomeados nem excluídos.
+ */
+export interface RoleDefinition {
+  id: number
+  name: Role // slug usado em `User.role`
+  label: string
+  requires_store: boolean
+  is_system: boolean
+  permissions: PermissionGrants
+  created_at: string
+  updated_at: string
+}
+
+/** Listas que aceitam visualizações salvas (chave enviada à API) */
+export type SavedViewList = 'store-products' | 'sales' | 'customers' | 'users'
+
+/** `personal`: só o autor vê; `store`: compartilhada com todos da loja */
+export type SavedViewVisibility = 'personal' | 'store'
+
+export interface SavedView {
+  id: number
+  list: SavedViewList
+  name: string
+  visibility: SavedViewVisibility
+  store_id: number | null // Obrigatório quando visibility = store
+  query: Record<string, string> // Filtros, ordenação e colunas, no formato da query da lista
+  user: { id: number; name: string } // Autor
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Como a regra de reajuste calcula o novo `sale_price`:
+ * - `margin`: margem alvo sobre o preço de venda (custo / (1 - margem))
+ * - `markup`: acréscimo percentual sobre o `cost_price`
+ * - `round`: mantém o preço atual, apenas ajusta o final
+ */
+export type RepricingMethod = 'margin' | 'markup' | 'round'
+
+/** Final de preço aplicado após o cálculo (arredonda para cima) */
+export type PriceEnding = '0.90' | '0.99'
+
+/** Produtos a que a regra se aplica (texto contido, sem acentos/maiúsculas; vazio = todos) */
+export interface RepricingMatch {
+  brand: string
+  name: string
+  flavor: string
+}
+
+/** Regra de reajuste salva; vale para qualquer loja */
+export interface RepricingRule {
+  id: number
+  name: string
+  method: RepricingMethod
+  percent: number | null // Obrigatório para margin/markup
+  ending: PriceEnding | null // Obrigatório para round
+  match: RepricingMatch
+  user: { id: number; name: string } // Autor
+  created_at: string
+  updated_at: string
 }
 
 // ============================================================================
@@ -162,6 +355,46 @@ export interface LoginRequest {
 export interface LoginResponse {
   token: string
   user: User
+  // Opcionais: presentes quando o backend emite tokens com validade e refresh token
+  refresh_token?: string
+  expires_in?: number // Segundos até o token expirar
+}
+
+export interface RefreshTokenRequest {
+  refresh_token: string
+}
+
+export interface RefreshTokenResponse {
+  token: string
+  refresh_token?: string // Rotação: quando ausente, o refresh token atual continua válido
+  expires_in?: number
+}
+
+/**
+ * Desbloqueio da tela travada por inatividade: PIN ou senha completa
+ */
+export type UnlockRequest = { pin: string } | { password: string }
+
+/**
+ * Sessão emitida para o admin "ver como" outro usuário (troca de token).
+ * O backend registra início e fim da janela de impersonação na auditoria.
+ */
+export interface ImpersonationResponse extends LoginResponse {
+  impersonation_id: number
+}
+
+/**
+ * Troca rápida de usuário no terminal: o novo usuário se autentica pelo PIN
+ */
+export interface SwitchUserRequest {
+  user_id: number
+  pin: string
+}
+
+export interface SetPinRequest {
+  pin: string
+  /** Senha atual, exigida para cadastrar/alterar o PIN */
+  password: string
 }
 
 export interface CreateStoreRequest {
@@ -224,6 +457,56 @@ export interface CreateSaleRequest {
     quantity: number
   }>
   notes?: string | null
+  discounts?: SaleDiscountRequest[] // Conferidos pelo backend contra as promoções vigentes
+  payments: SalePaymentRequest[] // Soma deve ser igual ao total da venda
+  shift_id?: number | null // Turno aberto de quem registra a venda
+  cash_received?: number | null // Obrigatório com pagamento em dinheiro; >= parte em dinheiro
+}
+
+export interface OpenShiftRequest {
+  opening_float: number
+  notes?: string | null
+}
+
+export interface CashMovementRequest {
+  kind: CashMovementKind
+  amount: number
+  reason: string // Max: 255
+}
+
+export interface CloseShiftRequest {
+  closing_count: DenominationCount
+  counted_amounts: Partial<Record<PaymentMethod, number>>
+  notes?: string | null
+}
+
+export interface SalePaymentRequest {
+  method: PaymentMethod
+  amount: number
+  installments: number | null
+}
+
+export interface SaleDiscountRequest {
+  source: SaleDiscountSource
+  promotion_id: number | null
+  store_product_id: number | null
+  mode: DiscountMode | null
+  value: number | null
+  amount: number
+}
+
+export interface PromotionRequest {
+  name: string // Max: 100
+  kind: PromotionKind
+  store_id: number | null // null exige promotion.manage em todas as lojas
+  brand: string | null
+  product_ids: number[]
+  quantity: number | null
+  price: number | null
+  percent: number | null
+  starts_at: string | null
+  ends_at: string | null
+  is_active: boolean
 }
 
 export interface WithdrawInventoryRequest {
@@ -254,20 +537,50 @@ export interface CreateUserRequest {
   name: string
   email: string
   password: string
-  role: 'admin' | 'manager' | 'seller'
-  store_id?: number | null // Obrigatório se role é manager ou seller
+  role: Role
+  store_id?: number | null // Obrigatório se o role exige loja (requires_store)
+  memberships?: StoreMembershipRequest[] // Lojas adicionais
   is_active?: boolean
 }
 
+export interface StoreMembershipRequest {
+  store_id: number
+  role: Role
+}
+
 export interface UpdateUserRequest {
   name?: string
   email?: string
   password?: string
-  role?: 'admin' | 'manager' | 'seller'
+  role?: Role
   store_id?: number | null
+  memberships?: StoreMembershipRequest[] // Substitui a lista de lojas adicionais
   is_active?: boolean
 }
 
+export interface RoleRequest {
+  name: Role // Imutável em roles de sistema
+  label: string
+  requires_store: boolean
+  permissions: PermissionGrants
+}
+
+export interface SavedViewRequest {
+  list: SavedViewList
+  name: string // Max: 100
+  visibility: SavedViewVisibility
+  store_id: number | null
+  query: Record<string, string>
+}
+
+export interface RepricingRuleRequest {
+  name: string // Max: 100
+  method: RepricingMethod
+  percent: number | null
+  ending: PriceEnding | null
+  match: RepricingMatch
+}
+
 // ============================================================================
 // Tipos de Query Parameters
 // ============================================================================
@@ -312,12 +625,34 @@ export interface SalesListParams extends ListQueryParams {
   from?: string // Date: YYYY-MM-DD
   to?: string // Date: YYYY-MM-DD, deve ser >= from
   search?: string // Max: 255 (busca em notes)
+  payment_method?: PaymentMethod // Vendas com ao menos um pagamento nesta forma
+  shift_id?: number
   sort_by?: 'sale_date' | 'total_amount' | 'created_at'
   sort_order?: 'asc' | 'desc'
 }
 
+export interface ShiftsListParams extends ListQueryParams {
+  status?: ShiftStatus
+  user_id?: number
+  from?: string // Date: YYYY-MM-DD (abertura)
+  to?: string // Date: YYYY-MM-DD, deve ser >= from
+  sort_by?: 'opened_at' | 'closed_at'
+  sort_order?: 'asc' | 'desc'
+}
+
+export interface PromotionsListParams {
+  store_id?: number // Inclui as promoções de todas as lojas (store_id null)
+  active_on?: string // Date: YYYY-MM-DD; apenas ativas e vigentes na data
+}
+
+export interface SavedViewsListParams {
+  list: SavedViewList
+  store_id?: number // Inclui as visualizações compartilhadas com a loja
+}
+
 export interface UsersListParams extends ListQueryParams {
-  role?: 'admin' | 'manager' | 'seller'
+  role?: Role
+  permission?: Permission // Usuários cujo role possui a permissão
   store_id?: number // Apenas Admin
   is_active?: boolean
   search?: string // Max: 255
@@ -349,3 +684,57 @@ export class ValidationError extends ApiError {
     this.validationErrors = errors
   }
 }
+
+/**
+ * Falha de rede: a requisição não chegou ao servidor ou a conexão caiu
+ * (offline, DNS, CORS, conexão resetada). Não há resposta HTTP.
+ */
+export class NetworkError extends Error {
+  constructor(message = 'Network error or server unavailable') {
+    super(message)
+    this.name = 'NetworkError'
+  }
+}
+
+/**
+ * A requisição excedeu o tempo limite configurado e foi abortada
+ */
+export class TimeoutError extends NetworkError {
+  constructor(
+    public timeoutMs: number,
+    message = `Request timed out after ${timeoutMs}ms`
+  ) {
+    super(message)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * A requisição foi cancelada pelo chamador (AbortSignal), normalmente porque
+ * uma requisição mais recente a substituiu. Não deve ser exibida ao usuário.
+ */
+export class RequestAbortedError extends Error {
+  constructor(message = 'Request aborted') {
+    super(message)
+    this.name = 'RequestAbortedError'
+  }
+}
+
+/**
+ * A resposta da API não corresponde ao contrato esperado (ver api/schemas.ts).
+ * Lançado apenas em desenvolvimento; em produção a divergência é registrada como aviso.
+ */
+export class SchemaValidationError extends Error {
+  constructor(
+    public endpoint: string,
+    public issues: Array<{ path: string; expected: string; received: string }>
+  ) {
+    const first = issues[0]
+    const detail = first
+      ? `${first.path || '(raiz)'}: esperado ${first.expected}, recebido ${first.received}`
+      : ''
+    const more = issues.length > 1 ? ` (+${issues.length - 1} divergência(s))` : ''
+    super(`Resposta inválida de ${endpoint} — ${detail}${more}`)
+    this.name = 'SchemaValidationError'
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { useListColumns, type ListColumn } from '@/composables/useListColumns'
+
+const columns: ListColumn<'name' | 'phone' | 'total' | 'created_at'>[] = [
+  { key: 'name', label: 'Nome', sort: 'name' },
+  { key: 'phone', label: 'Telefone' },
+  { key: 'total', label: 'Total' },
+  { key: 'created_at', label: 'Cadastro', hidden: true },
+]
+
+describe('useListColumns', () => {
+  it('começa com as colunas visíveis por padrão, sem estado na query', () => {
+    const list = useListColumns(columns)
+    expect(list.visibleKeys.value).toEqual(['name', 'phone', 'total'])
+    expect(list.options.value.map(column => column.key)).toEqual([
+      'name',
+      'phone',
+      'total',
+      'created_at',
+    ])
+    expect(list.queryState()).toEqual({})
+  })
+
+  it('exibe ao final, oculta, move e grava a ordem na query', () => {
+    const list = useListColumns(columns)
+    list.toggle('created_at')
+    list.toggle('phone')
+    list.move('created_at', -1)
+    list.move('name', -1)
+    expect(list.visible.value.map(column => column.label)).toEqual(['Nome', 'Cadastro', 'Total'])
+    expect(list.queryState()).toEqual({ columns: 'name,created_at,total' })
+
+    list.reset()
+    expect(list.isDefault.value).toBe(true)
+  })
+
+  it('não oculta a última coluna exibida', () => {
+    const list = useListColumns(columns)
+    list.toggle('name')
+    list.toggle('phone')
+    list.toggle('total')
+    expect(list.visibleKeys.value).toEqual(['total'])
+  })
+
+  it('restaura da query ignorando colunas desconhecidas e repetidas', () => {
+    const list = useListColumns(columns)
+    list.restoreQueryState({ columns: 'total,foo,name,total', search: 'x' })
+    expect(list.visibleKeys.value).toEqual(['total', 'name'])
+
+    list.restoreQueryState({ columns: 'foo' })
+    expect(list.visibleKeys.value).toEqual(['name', 'phone', 'total'])
+  })
+})
@@ -0,0 +1,237 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createApp } from 'vue'
+import { createMemoryHistory, createRouter } from 'vue-router'
+import type { PaginatedResponse } from '@/api/types'
+import { RequestAbortedError, ValidationError } from '@/api/types'
+import { usePaginatedList, type ListFetchOptions } from '@/composables/usePaginatedList'
+
+interface Item {
+  id: number
+}
+
+interface Params {
+  page?: number
+  per_page?: number
+  search?: string
+  active?: boolean
+  store_id?: number
+  sort_by?: 'name' | 'created_at'
+  sort_order?: 'asc' | 'desc'
+}
+
+function page(ids: number[], current = 1, last = 1, total = ids.length): PaginatedResponse<Item> {
+  return {
+    data: ids.map(id => ({ id })),
+    meta: { current_page: current, per_page: 15, total, last_page: last, from: 1, to: ids.length },
+  }
+}
+
+/** Busca controlada pelo teste: cada chamada fica pendente até `resolve`/`reject` */
+function deferredFetch() {
+  const pending: Array<{
+    params: Params
+    signal: AbortSignal
+    resolve: (response: PaginatedResponse<Item>) => void
+    reject: (error: unknown) => void
+  }> = []
+  const fetch = vi.fn(
+    (params: Params, { signal }: ListFetchOptions) =>
+      new Promise<PaginatedResponse<Item>>((resolve, reject) => {
+        pending.push({ params, signal, resolve, reject })
+      })
+  )
+  return { fetch, pending }
+}
+
+function createList(
+  fetch: (params: Params, options: ListFetchOptions) => Promise<PaginatedResponse<Item>>,
+  blockedReason?: () => string | null,
+  syncWithQuery = false
+) {
+  return usePaginatedList({
+    syncWithQuery,
+    fetch,
+    filters: {
+      search: { param: 'search', initial: '' },
+      active: { param: 'active', initial: undefined as boolean | undefined, type: 'boolean' },
+    },
+    fixedParams: () => ({ store_id: 3 }),
+    blockedReason,
+    sortKeys: ['name', 'created_at'],
+    sortBy: 'name',
+    errorMessage: 'Erro ao carregar',
+  })
+}
+
+describe('usePaginatedList', () => {
+  it('envia parâmetros fixos, ordenação e só os filtros preenchidos, sem espaços', async () => {
+    const fetch = vi.fn(async () => page([1, 2], 2, 4, 50))
+    const list = createList(fetch)
+    list.search.value = '  pod  '
+    list.currentPage.value = 2
+
+    await list.load()
+
+    expect(fetch).toHaveBeenCalledWith(
+      {
+        store_id: 3,
+        page: 2,
+        per_page: 15,
+        sort_by: 'name',
+        sort_order: 'asc',
+        search: 'pod',
+      },
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    )
+    expect(list.items.value).toEqual([{ id: 1 }, { id: 2 }])
+    expect(list.total.value).toBe(50)
+    expect(list.lastPage.value).toBe(4)
+    expect(list.loading.value).toBe(false)
+  })
+
+  it('a última busca vence: a anterior é cancelada e seu resultado descartado', async () => {
+    const { fetch, pending } = deferredFetch()
+    const list = createList(fetch)
+
+    const first = list.load()
+    list.search.value = 'menta'
+    const second = list.applyFilters()
+    expect(pending[0]!.signal.aborted).toBe(true)
+
+    pending[1]!.resolve(page([2]))
+    await second
+    pending[0]!.resolve(page([1]))
+    await first
+
+    expect(list.items.value).toEqual([{ id: 2 }])
+    expect(list.loading.value).toBe(false)
+  })
+
+  it('ignora o cancelamento e mostra as mensagens de validação dos campos', async () => {
+    const { fetch, pending } = deferredFetch()
+    const list = createList(fetch)
+
+    const aborted = list.load()
+    pending[0]!.reject(new RequestAbortedError())
+    await aborted
+    expect(list.error.value).toBeNull()
+
+    const invalid = list.load()
+    pending[1]!.reject(new ValidationError('Dados inválidos', { from: ['Data inválida'] }))
+    await invalid
+    expect(list.error.value).toBe('Data inválida')
+    expect(list.items.value).toEqual([])
+  })
+
+  it('não busca quando bloqueada', async () => {
+    const fetch = vi.fn(async () => page([1]))
+    const list = createList(fetch, () => 'Loja inválida')
+    await list.load()
+    expect(fetch).not.toHaveBeenCalled()
+    expect(list.error.value).toBe('Loja inválida')
+  })
+
+  it('setSort alterna a ordem no mesmo campo e volta à inicial em outro campo', async () => {
+    const fetch = vi.fn(async () => page([]))
+    const list = createList(fetch)
+
+    list.setSort('name')
+    expect(list.sortOrder.value).toBe('desc')
+    list.setSort('created_at')
+    expect([list.sortBy.value, list.sortOrder.value]).toEqual(['created_at', 'asc'])
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2))
+  })
+
+  it('forEachPage percorre todas as páginas da consulta atual com o máximo por página', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(page([1, 2], 1, 2, 3))
+      .mockResolvedValueOnce(page([3], 2, 2, 3))
+    const list = createList(fetch)
+    list.active.value = false
+    const seen: number[] = []
+
+    await list.forEachPage(
+      items => {
+        seen.push(...items.map(item => item.id))
+      },
+      { signal: new AbortController().signal }
+    )
+
+    expect(seen).toEqual([1, 2, 3])
+    expect(
+      fetch.mock.calls.map(([params]) => [params.page, params.per_page, params.active])
+    ).toEqual([
+      [1, 100, false],
+      [2, 100, false],
+    ])
+    expect(list.items.value).toEqual([])
+  })
+})
+
+describe('usePaginatedList com syncWithQuery', () => {
+  /** Lista criada dentro de um app com router em memória, já na URL informada */
+  async function listAt(url: string) {
+    const router = createRouter({
+      history: createMemoryHistory(),
+      routes: [{ path: '/lista', name: 'lista', component: {} }],
+    })
+    await router.push(url)
+    const app = createApp({})
+    app.use(router)
+    const fetch = vi.fn(async (params: Params) => page([1], params.page ?? 1, 5, 75))
+    const list = app.runWithContext(() => createList(fetch, undefined, true))
+    return { router, fetch, list }
+  }
+
+  it('lê o estado da URL, descartando valores inválidos', async () => {
+    const { list } = await listAt(
+      '/lista?search=pod&active=0&sort_by=created_at&sort_order=up&page=3&tab=estoque'
+    )
+    expect(list.search.value).toBe('pod')
+    expect(list.active.value).toBe(false)
+    expect(list.sortBy.value).toBe('created_at')
+    expect(list.sortOrder.value).toBe('asc')
+    expect(list.currentPage.value).toBe(3)
+    expect(list.queryState()).toEqual({
+      search: 'pod',
+      active: '0',
+      sort_by: 'created_at',
+      page: '3',
+    })
+  })
+
+  it('grava só o que difere do padrão, sem perder as outras chaves da URL', async () => {
+    const { router, list } = await listAt('/lista?tab=estoque&sort_order=up')
+    await list.load()
+    await vi.waitFor(() => expect(router.currentRoute.value.query).toEqual({ tab: 'estoque' }))
+
+    list.search.value = ' menta '
+    list.setSort('name')
+    await vi.waitFor(() =>
+      expect(router.currentRoute.value.query).toEqual({
+        tab: 'estoque',
+        search: 'menta',
+        sort_order: 'desc',
+      })
+    )
+  })
+
+  it('restaura um estado salvo e segue a URL quando ela muda', async () => {
+    const { router, fetch, list } = await listAt('/lista')
+    await list.load()
+
+    list.restoreQueryState({ search: 'ice', page: '2' })
+    await vi.waitFor(() =>
+      expect(router.currentRoute.value.query).toEqual({ search: 'ice', page: '2' })
+    )
+    expect(fetch).toHaveBeenLastCalledWith(
+      expect.objectContaining({ search: 'ice', page: 2 }),
+      expect.anything()
+    )
+
+    await router.replace('/lista?search=pod')
+    await vi.waitFor(() => expect(list.search.value).toBe('pod'))
+    expect(list.currentPage.value).toBe(1)
+  })
+})
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import type { SavedView } from '@/api/types'
+import { useListColumns } from '@/composables/useListColumns'
+import { useSavedViews, type SavedViewTarget } from '@/composables/useSavedViews'
+import type { ListQueryState } from '@/utils/listQuery'
+import { mockFetch, useDefaultInterceptors } from '@/api/__tests__/http'
+
+// A store real importa o router, que exige `window`
+vi.mock('@/stores/auth', () => ({ useAuthStore: () => ({ user: { id: 3 } }) }))
+
+/** Lista com um único filtro, `search`: como `usePaginatedList`, ignora as outras chaves */
+function fakeList(initial: ListQueryState): SavedViewTarget {
+  let state = { ...initial }
+  return {
+    queryState: () => ({ ...state }),
+    restoreQueryState: saved => {
+      state = saved.search ? { search: saved.search } : {}
+    },
+  }
+}
+
+function columns() {
+  return useListColumns([
+    { key: 'name', label: 'Nome' },
+    { key: 'phone', label: 'Telefone' },
+    { key: 'total', label: 'Total' },
+  ])
+}
+
+const view: SavedView = {
+  id: 7,
+  list: 'customers',
+  name: 'Só nomes',
+  visibility: 'personal',
+  store_id: null,
+  query: { search: 'ana', columns: 'total,name' },
+  user: { id: 3, name: 'Ana' },
+  created_at: '2026-05-01T00:00:00Z',
+  updated_at: '2026-05-01T00:00:00Z',
+}
+
+describe('useSavedViews', () => {
+  let cleanup: () => void
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    cleanup = useDefaultInterceptors()
+  })
+  afterEach(() => cleanup())
+
+  it('salva filtros e colunas juntos, sem a página', async () => {
+    const calls = mockFetch({ status: 201, body: { data: view } })
+    const list = fakeList({ search: 'ana', page: '3' })
+    const tableColumns = columns()
+    tableColumns.toggle('phone')
+    tableColumns.move('total', -1)
+    const savedViews = useSavedViews('customers', [list, tableColumns], null)
+
+    await savedViews.saveCurrent(' Só nomes ', 'personal')
+
+    expect(JSON.parse(calls[0]!.init.body as string)).toEqual({
+      list: 'customers',
+      name: 'Só nomes',
+      visibility: 'personal',
+      store_id: null,
+      query: { search: 'ana', columns: 'total,name' },
+    })
+    expect(savedViews.activeView.value?.id).toBe(7)
+  })
+
+  it('aplica a visualização a cada alvo e a reconhece como ativa', async () => {
+    mockFetch({ body: { data: [view] } })
+    const list = fakeList({})
+    const tableColumns = columns()
+    const savedViews = useSavedViews('customers', [list, tableColumns], null)
+    await savedViews.load()
+    expect(savedViews.activeView.value).toBeNull()
+
+    savedViews.apply(view)
+    expect(tableColumns.visibleKeys.value).toEqual(['total', 'name'])
+    expect(savedViews.activeView.value?.id).toBe(7)
+
+    tableColumns.reset()
+    expect(savedViews.activeView.value).toBeNull()
+  })
+})
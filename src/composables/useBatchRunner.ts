@@ -0,0 +1,191 @@
+/**
+ * Composable para executar uma ação sobre vários itens (ações em massa)
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * Os itens são processados com concorrência limitada (poucas requisições ao mesmo tempo);
+ * a falha de um item não interrompe os demais. Ao final ficam registradas as falhas, que
+ * podem ser reenviadas com `retryFailed`.
+ */
+
+import { ref, computed, getCurrentScope, onScopeDispose, type Ref } from 'vue'
+import { useErrorHandler } from '@/composables/useErrorHandler'
+
+export interface BatchProgress {
+  done: number
+  total: number
+  failed: number
+}
+
+export interface BatchFailure<TItem> {
+  item: TItem
+  message: string
+}
+
+/** Resultado da última execução */
+export interface BatchResult {
+  label: string
+  succeeded: number
+  failed: number
+  /** Interrompida por `cancel` (itens restantes não foram processados) */
+  cancelled: boolean
+}
+
+/** Tarefa aplicada a cada item; falhas viram mensagens via `handleApiError` */
+export type BatchTask<TItem> = (item: TItem) => Promise<unknown>
+
+/** Itens já conhecidos ou carregados no início da execução (ex.: todas as páginas do filtro) */
+export type BatchItems<TItem> = TItem[] | ((signal: AbortSignal) => Promise<TItem[]>)
+
+export interface BatchRunnerOptions {
+  /** Máximo de itens processados ao mesmo tempo (padrão: 4) */
+  concurrency?: number
+  /** Chamado ao final de cada execução (inclusive cancelada), ex.: recarregar a lista */
+  onFinish?: (result: BatchResult) => void
+}
+
+const DEFAULT_CONCURRENCY = 4
+
+export function useBatchRunner<TItem>(options: BatchRunnerOptions = {}) {
+  const { handleApiError } = useErrorHandler()
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY)
+
+  // State
+  const running = ref(false)
+  /** Carregando os itens antes de começar (seleção de todas as páginas) */
+  const preparing = ref(false)
+  const label = ref('')
+  const progress = ref<BatchProgress>({ done: 0, total: 0, failed: 0 })
+  const failures = ref<BatchFailure<TItem>[]>([]) as Ref<BatchFailure<TItem>[]>
+  const result = ref<BatchResult | null>(null)
+  const error = ref<string | null>(null)
+
+  const percent = computed(() =>
+    progress.value.total > 0 ? Math.round((progress.value.done / progress.value.total) * 100) : 0
+  )
+
+  let abortController: AbortController | null = null
+  let lastTask: BatchTask<TItem> | null = null
+
+  /**
+   * Executa `task` em cada item; resolve quando todos terminarem (ou após cancelar)
+   */
+  async function run(
+    runLabel: string,
+    items: BatchItems<TItem>,
+    task: BatchTask<TItem>
+  ): Promise<BatchResult | null> {
+    if (running.value) return null
+
+    const controller = new AbortController()
+    abortController = controller
+    lastTask = task
+    running.value = true
+    label.value = runLabel
+    progress.value = { done: 0, total: 0, failed: 0 }
+    failures.value = []
+    result.value = null
+    error.value = null
+
+    try {
+      let list: TItem[]
+      if (Array.isArray(items)) {
+        list = items
+      } else {
+        preparing.value = true
+        try {
+          list = await items(controller.signal)
+        } finally {
+          preparing.value = false
+        }
+      }
+      if (controller.signal.aborted) return finish(runLabel, 0, true)
+
+      progress.value = { done: 0, total: list.length, failed: 0 }
+      let next = 0
+      let succeeded = 0
+
+      async function worker() {
+        while (next < list.length && !controller.signal.aborted) {
+          const item = list[next++] as TItem
+          try {
+            await task(item)
+            succeeded++
+          } catch (err) {
+            const message = handleApiError(err).message || 'Erro ao processar item'
+            failures.value.push({ item, message })
+            progress.value.failed++
+          }
+          progress.value.done++
+        }
+      }
+
+      await Promise.all(Array.from({ length: Math.min(concurrency, list.length) }, worker))
+      return finish(runLabel, succeeded, controller.signal.aborted)
+    } catch (err) {
+      // Falha ao carregar os itens: nada foi processado
+      if (!controller.signal.aborted) {
+        error.value = handleApiError(err).message || 'Erro ao carregar os itens selecionados'
+      }
+      return finish(runLabel, 0, controller.signal.aborted)
+    } finally {
+      if (abortController === controller) abortController = null
+      running.value = false
+    }
+  }
+
+  function finish(runLabel: string, succeeded: number, cancelled: boolean): BatchResult {
+    const batchResult = { label: runLabel, succeeded, failed: failures.value.length, cancelled }
+    result.value = batchResult
+    options.onFinish?.(batchResult)
+    return batchResult
+  }
+
+  /**
+   * Reexecuta a última ação apenas nos itens que falharam
+   */
+  function retryFailed(): Promise<BatchResult | null> {
+    if (!lastTask || failures.value.length === 0) return Promise.resolve(null)
+    const items = failures.value.map(failure => failure.item)
+    return run(label.value, items, lastTask)
+  }
+
+  /**
+   * Interrompe a execução: itens em andamento terminam, os demais não são enviados
+   */
+  function cancel() {
+    abortController?.abort()
+  }
+
+  /**
+   * Descarta o resultado da última execução
+   */
+  function dismiss() {
+    if (running.value) return
+    result.value = null
+    failures.value = []
+    error.value = null
+    lastTask = null
+  }
+
+  // Não enviar mais itens depois que o componente dono for desmontado
+  if (getCurrentScope()) {
+    onScopeDispose(cancel)
+  }
+
+  return {
+    running,
+    preparing,
+    label,
+    progress,
+    percent,
+    failures,
+    result,
+    error,
+    run,
+    retryFailed,
+    cancel,
+    dismiss,
+  }
+}
+
+export type BatchRunner<TItem> = ReturnType<typeof useBatchRunner<TItem>>
@@ -1,10 +1,15 @@
 /**
  * Composable para gerenciar carrinho de compras (POS)
  * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * Descontos (promoções vigentes, desconto no item e no carrinho) são calculados por
+ * `priceCart`; `total` já é o valor com descontos.
  */
 
 import { ref, computed } from 'vue'
-import type { StoreProduct } from '@/api/types'
+import type { Promotion, SaleDiscountRequest, StoreProduct } from '@/api/types'
+import type { CartSnapshot } from '@/utils/cartStorage'
+import { priceCart, saleDiscounts, type LinePricing, type ManualDiscount } from '@/utils/discounts'
 
 export interface CartItem {
   storeProduct: StoreProduct
@@ -13,6 +18,11 @@ export interface CartItem {
 
 export function useCart() {
   const items = ref<CartItem[]>([])
+  /** Promoções vigentes na loja, em ordem de prioridade */
+  const promotions = ref<Promotion[]>([])
+  /** Desconto manual por item (id do store product) */
+  const itemDiscounts = ref<Record<number, ManualDiscount>>({})
+  const cartDiscount = ref<ManualDiscount | null>(null)
 
   /**
    * Adiciona ou atualiza item no carrinho
@@ -45,6 +55,7 @@ export function useCart() {
     if (index >= 0) {
       items.value.splice(index, 1)
     }
+    delete itemDiscounts.value[storeProductId]
   }
 
   /**
@@ -66,6 +77,56 @@ export function useCart() {
    */
   function clear() {
     items.value = []
+    itemDiscounts.value = {}
+    cartDiscount.value = null
+  }
+
+  /**
+   * Cópia do carrinho (itens e descontos manuais) como dado puro, para guardar no dispositivo
+   */
+  function snapshot(): CartSnapshot {
+    return JSON.parse(
+      JSON.stringify({
+        items: items.value,
+        itemDiscounts: itemDiscounts.value,
+        cartDiscount: cartDiscount.value,
+      })
+    )
+  }
+
+  /**
+   * Substitui o carrinho por um guardado. Estoque e preço vêm do momento em que foi
+   * guardado: quem restaura deve revalidar contra os produtos atuais.
+   */
+  function restore(saved: CartSnapshot) {
+    items.value = saved.items.map(item => ({ ...item }))
+    itemDiscounts.value = { ...saved.itemDiscounts }
+    cartDiscount.value = saved.cartDiscount
+  }
+
+  /**
+   * Define as promoções consideradas no cálculo (já filtradas por loja e vigência)
+   */
+  function setPromotions(list: Promotion[]) {
+    promotions.value = list
+  }
+
+  /**
+   * Define (ou remove, com null/valor zero) o desconto manual de um item
+   */
+  function setItemDiscount(storeProductId: number, discount: ManualDiscount | null) {
+    if (discount && discount.value > 0) {
+      itemDiscounts.value[storeProductId] = discount
+    } else {
+      delete itemDiscounts.value[storeProductId]
+    }
+  }
+
+  /**
+   * Define (ou remove) o desconto manual do carrinho
+   */
+  function setCartDiscount(discount: ManualDiscount | null) {
+    cartDiscount.value = discount && discount.value > 0 ? discount : null
   }
 
   /**
@@ -76,9 +137,25 @@ export function useCart() {
     items.value = items.value.filter(item => 
       validStoreProductIds.includes(item.storeProduct.id)
     )
+    for (const id of Object.keys(itemDiscounts.value).map(Number)) {
+      if (!validStoreProductIds.includes(id)) delete itemDiscounts.value[id]
+    }
     return initialLength - items.value.length
   }
 
+  /**
+   * Atualiza os dados dos produtos no carrinho (ex.: estoque do vendedor após troca de usuário).
+   * Itens sem correspondência ficam como estão; a validação final acontece ao finalizar a venda.
+   */
+  function syncStoreProducts(storeProducts: StoreProduct[]) {
+    items.value.forEach(item => {
+      const updated = storeProducts.find(p => p.id === item.storeProduct.id)
+      if (updated) {
+        item.storeProduct = updated
+      }
+    })
+  }
+
   /**
    * Calcula subtotal de um item
    */
@@ -87,13 +164,46 @@ export function useCart() {
   }
 
   /**
-   * Calcula total do carrinho
+   * Subtotal, descontos e total do carrinho
    */
-  const total = computed(() => {
-    return items.value.reduce((sum, item) => {
-      return sum + parseFloat(item.storeProduct.sale_price) * item.quantity
-    }, 0)
-  })
+  const pricing = computed(() =>
+    priceCart({
+      lines: items.value.map(item => ({
+        storeProductId: item.storeProduct.id,
+        productId: item.storeProduct.product_id,
+        brand: item.storeProduct.product?.brand ?? null,
+        unitPrice: parseFloat(item.storeProduct.sale_price) || 0,
+        quantity: item.quantity,
+      })),
+      promotions: promotions.value,
+      itemDiscounts: itemDiscounts.value,
+      cartDiscount: cartDiscount.value,
+    })
+  )
+
+  /**
+   * Calcula subtotal (sem descontos) do carrinho
+   */
+  const subtotal = computed(() => pricing.value.subtotal)
+
+  /**
+   * Calcula total do carrinho, já com descontos
+   */
+  const total = computed(() => pricing.value.total)
+
+  /**
+   * Valores de um item após promoções e descontos
+   */
+  function getItemPricing(item: CartItem): LinePricing | undefined {
+    return pricing.value.lines.find(line => line.storeProductId === item.storeProduct.id)
+  }
+
+  /**
+   * Descontos no formato do payload da venda (qual promoção gerou cada desconto)
+   */
+  function discountsPayload(): SaleDiscountRequest[] {
+    return saleDiscounts(pricing.value, itemDiscounts.value, cartDiscount.value)
+  }
 
   /**
    * Verifica se o carrinho está vazio
@@ -111,6 +221,11 @@ export function useCart() {
 
   return {
     items,
+    promotions,
+    itemDiscounts,
+    cartDiscount,
+    pricing,
+    subtotal,
     total,
     isEmpty,
     isValid,
@@ -118,7 +233,17 @@ export function useCart() {
     removeItem,
     updateQuantity,
     clear,
+    snapshot,
+    restore,
+    setPromotions,
+    setItemDiscount,
+    setCartDiscount,
     removeInvalidItems,
+    syncStoreProducts,
     getItemSubtotal,
+    getItemPricing,
+    discountsPayload,
   }
 }
+
+export type Cart = ReturnType<typeof useCart>
@@ -0,0 +1,103 @@
+/**
+ * Composable: guarda a venda em andamento no dispositivo, por usuário e loja
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * Depois de `start`, cada mudança no carrinho, no cliente ou nas observações é gravada
+ * (carrinho vazio apaga o registro). Conferir estoque e preços ao restaurar é papel de
+ * quem restaura.
+ */
+
+import { ref, watch, toValue, type MaybeRefOrGetter } from 'vue'
+import type { Cart } from '@/composables/useCart'
+import {
+  clearActiveCart,
+  loadActiveCart,
+  saveActiveCart,
+  type ActiveCart,
+} from '@/utils/cartStorage'
+
+export function useCartPersistence(
+  cart: Cart,
+  details: () => Pick<ActiveCart, 'customer' | 'notes'>,
+  storeId: MaybeRefOrGetter<number | null>,
+  userId: MaybeRefOrGetter<number | null>
+) {
+  const error = ref<string | null>(null)
+  let active = false
+  // Gravações em fila: a última mudança sempre é a última gravada
+  let pending: Promise<void> = Promise.resolve()
+
+  function owner(): { storeId: number; userId: number } | null {
+    const store = toValue(storeId)
+    const user = toValue(userId)
+    return store && user ? { storeId: store, userId: user } : null
+  }
+
+  function enqueue(write: () => Promise<void>) {
+    pending = pending.then(write).catch(err => {
+      error.value = err instanceof Error ? err.message : 'Erro ao guardar o carrinho'
+    })
+  }
+
+  /**
+   * Venda em andamento guardada para o usuário na loja atual
+   */
+  async function read(): Promise<ActiveCart | null> {
+    const current = owner()
+    if (!current) return null
+    error.value = null
+    try {
+      return await loadActiveCart(current.storeId, current.userId)
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Erro ao recuperar o carrinho'
+      return null
+    }
+  }
+
+  function persist() {
+    const current = owner()
+    if (!active || !current) return
+
+    if (cart.isEmpty.value) {
+      enqueue(() => clearActiveCart(current.storeId, current.userId))
+      return
+    }
+    const data = { cart: cart.snapshot(), ...details() }
+    enqueue(() => saveActiveCart(current.storeId, current.userId, data))
+  }
+
+  /** Passa a gravar as mudanças (chamar depois de restaurar, para não apagar o guardado) */
+  function start() {
+    active = true
+    persist()
+  }
+
+  /** Para de gravar: o que já foi guardado permanece */
+  function stop() {
+    active = false
+  }
+
+  /**
+   * Apaga o carrinho guardado de outro usuário na loja atual (ex.: o carrinho passou para o
+   * novo usuário na troca rápida de vendedor)
+   */
+  function forget(previousUserId: number) {
+    const store = toValue(storeId)
+    if (store) enqueue(() => clearActiveCart(store, previousUserId))
+  }
+
+  // Síncrono: a gravação usa o dono no momento da mudança (antes de uma troca de loja/usuário)
+  watch(
+    () => [cart.items.value, cart.itemDiscounts.value, cart.cartDiscount.value, details()],
+    persist,
+    { deep: true, flush: 'sync' }
+  )
+
+  return {
+    error,
+    read,
+    start,
+    stop,
+    forget,
+  }
+}
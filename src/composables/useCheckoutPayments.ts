@@ -0,0 +1,83 @@
+/**
+ * Composable: pagamento no checkout do PDV (uma ou várias formas, troco do dinheiro)
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * Com uma única forma de pagamento, o valor acompanha o total do carrinho (ex.: promoção
+ * aplicada depois de escolher a forma); com várias, a divisão fica como o vendedor definiu.
+ */
+
+import { ref, computed, watch, toValue, type MaybeRefOrGetter } from 'vue'
+import type { PaymentMethod, SalePaymentRequest } from '@/api/types'
+import { paymentsPayload, summarizePayments, type PaymentLine } from '@/utils/payments'
+
+export function useCheckoutPayments(total: MaybeRefOrGetter<number>) {
+  const lines = ref<PaymentLine[]>([])
+  const cashReceived = ref<number | null>(null)
+
+  const summary = computed(() => summarizePayments(toValue(total), lines.value, cashReceived.value))
+
+  const hasCash = computed(() => lines.value.some(line => line.method === 'cash'))
+
+  /**
+   * Adiciona uma forma de pagamento com o valor que falta
+   */
+  function addPayment(method: PaymentMethod) {
+    const remaining = summary.value.remaining
+    lines.value.push({ method, amount: remaining > 0 ? remaining : null, installments: 1 })
+  }
+
+  function removePayment(index: number) {
+    lines.value.splice(index, 1)
+    if (!hasCash.value) cashReceived.value = null
+  }
+
+  function setAmount(index: number, amount: number | null) {
+    const line = lines.value[index]
+    if (line) line.amount = amount
+  }
+
+  function setInstallments(index: number, installments: number) {
+    const line = lines.value[index]
+    if (line) line.installments = installments
+  }
+
+  function setCashReceived(amount: number | null) {
+    cashReceived.value = amount
+  }
+
+  function reset() {
+    lines.value = []
+    cashReceived.value = null
+  }
+
+  function payload(): { payments: SalePaymentRequest[]; cash_received: number | null } {
+    return {
+      payments: paymentsPayload(lines.value),
+      cash_received: hasCash.value ? cashReceived.value : null,
+    }
+  }
+
+  watch(
+    () => toValue(total),
+    newTotal => {
+      const [only] = lines.value
+      if (lines.value.length === 1 && only) only.amount = newTotal > 0 ? newTotal : null
+    }
+  )
+
+  return {
+    lines,
+    cashReceived,
+    summary,
+    hasCash,
+    addPayment,
+    removePayment,
+    setAmount,
+    setInstallments,
+    setCashReceived,
+    reset,
+    payload,
+  }
+}
+
+export type CheckoutPayments = ReturnType<typeof useCheckoutPayments>
@@ -1,6 +1,5 @@
 import { computed } from 'vue'
 import { useRoute, useRouter, type RouteLocationRaw } from 'vue-router'
-import { useAuthStore } from '@/stores/auth'
 import { useStoreContext } from '@/composables/useStoreContext'
 
 function toPositiveInt(value: unknown): number | null {
@@ -12,8 +11,8 @@ function toPositiveInt(value: unknown): number | null {
 
 /**
  * Resolve o storeId efetivo (fonte única) considerando:
- * - admin: store selector (`useStoreContext`)
- * - manager/seller: store_id do usuário autenticado
+ * - loja selecionada no contexto (`useStoreContext`): qualquer loja para admin, uma das
+ *   lojas do usuário para os demais
  * - fallback: storeId presente na rota
  *
  * Também oferece helper para sincronizar a URL quando o store efetivo diverge do storeId da rota.
@@ -21,26 +20,14 @@ function toPositiveInt(value: unknown): number | null {
 export function useEffectiveStoreId() {
   const route = useRoute()
   const router = useRouter()
-  const authStore = useAuthStore()
   const storeContext = useStoreContext()
 
-  const role = computed(() => authStore.user?.role)
-
   const routeStoreId = computed<number | null>(() => {
     return toPositiveInt(route.params.storeId)
   })
 
-  const userStoreId = computed<number | null>(() => {
-    const id = authStore.user?.store_id
-    return typeof id === 'number' && id > 0 ? id : null
-  })
-
   const effectiveStoreId = computed<number | null>(() => {
-    if (role.value === 'admin') {
-      return storeContext.storeId.value ?? routeStoreId.value
-    }
-    // manager/seller: sempre a loja do usuário (se existir)
-    return userStoreId.value ?? routeStoreId.value
+    return storeContext.storeId.value ?? routeStoreId.value
   })
 
   function syncUrlToStore(buildLocation: (storeId: number) => RouteLocationRaw) {
@@ -51,7 +38,6 @@ export function useEffectiveStoreId() {
   }
 
   return {
-    role,
     routeStoreId,
     effectiveStoreId,
     syncUrlToStore,
@@ -4,7 +4,7 @@
  * Seguindo DevGuide.md: mapear 403/404/409 para mensagens user-friendly
  */
 
-import { ApiError, ValidationError } from '@/api/types'
+import { ApiError, NetworkError, TimeoutError, ValidationError } from '@/api/types'
 
 export interface ErrorMessage {
   message: string
@@ -57,6 +57,21 @@ export function useErrorHandler() {
       return { message }
     }
 
+    // Timeout (deve vir antes de NetworkError, pois é uma subclasse)
+    if (err instanceof TimeoutError) {
+      return {
+        message:
+          'O servidor demorou demais para responder. Verifique sua conexão e tente novamente.',
+      }
+    }
+
+    // Sem conexão / servidor inacessível
+    if (err instanceof NetworkError) {
+      return {
+        message: 'Sem conexão com o servidor. Verifique sua internet e tente novamente.',
+      }
+    }
+
     // Error genérico
     if (err instanceof Error) {
       return { message: err.message }
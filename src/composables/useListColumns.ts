@@ -0,0 +1,111 @@
+/**
+ * Composable para as colunas exibidas de uma tabela de lista (visibilidade e ordem)
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * O estado tem a forma da query (`columns=name,phone`, só quando difere do padrão), para
+ * entrar nas visualizações salvas junto com filtros e ordenação. Fica fora da URL: a lista
+ * já grava a query ao carregar, e duas gravações seguidas na rota se sobrescreveriam.
+ */
+
+import { ref, computed, type Ref } from 'vue'
+import { parseQueryList, type ListQueryState } from '@/utils/listQuery'
+
+export interface ListColumn<TKey extends string = string, TSort extends string = string> {
+  key: TKey
+  label: string
+  /** Campo de ordenação do cabeçalho (ausente: coluna não ordenável) */
+  sort?: TSort
+  /** Oculta até o usuário exibi-la */
+  hidden?: boolean
+}
+
+const QUERY_KEY = 'columns'
+
+export function useListColumns<TKey extends string, TSort extends string>(
+  columns: readonly ListColumn<TKey, TSort>[]
+) {
+  const allKeys = columns.map(column => column.key)
+  const defaultKeys = columns.filter(column => !column.hidden).map(column => column.key)
+
+  // State: colunas exibidas, na ordem
+  const visibleKeys = ref([...defaultKeys]) as Ref<TKey[]>
+
+  const visible = computed(() =>
+    visibleKeys.value.map(key => columns.find(column => column.key === key)!)
+  )
+
+  /** Todas as colunas para o menu: as exibidas na ordem atual, depois as ocultas */
+  const options = computed(() => [
+    ...visible.value,
+    ...columns.filter(column => !visibleKeys.value.includes(column.key)),
+  ])
+
+  const isDefault = computed(
+    () =>
+      visibleKeys.value.length === defaultKeys.length &&
+      visibleKeys.value.every((key, index) => key === defaultKeys[index])
+  )
+
+  function isVisible(key: TKey): boolean {
+    return visibleKeys.value.includes(key)
+  }
+
+  /**
+   * Exibe (ao final) ou oculta a coluna; a última coluna exibida não pode ser ocultada
+   */
+  function toggle(key: TKey) {
+    if (!isVisible(key)) {
+      visibleKeys.value = [...visibleKeys.value, key]
+    } else if (visibleKeys.value.length > 1) {
+      visibleKeys.value = visibleKeys.value.filter(entry => entry !== key)
+    }
+  }
+
+  /**
+   * Move a coluna exibida uma posição para a esquerda (-1) ou para a direita (1)
+   */
+  function move(key: TKey, offset: -1 | 1) {
+    const index = visibleKeys.value.indexOf(key)
+    const target = index + offset
+    if (index < 0 || target < 0 || target >= visibleKeys.value.length) return
+    const keys = [...visibleKeys.value]
+    keys[index] = keys[target]!
+    keys[target] = key
+    visibleKeys.value = keys
+  }
+
+  function reset() {
+    visibleKeys.value = [...defaultKeys]
+  }
+
+  function queryState(): ListQueryState {
+    return isDefault.value ? {} : { [QUERY_KEY]: visibleKeys.value.join(',') }
+  }
+
+  /**
+   * Restaura um estado salvo; sem `columns` (ou só com colunas desconhecidas), volta ao padrão
+   */
+  function restoreQueryState(state: ListQueryState) {
+    visibleKeys.value = parseQueryList(state[QUERY_KEY], allKeys) ?? [...defaultKeys]
+  }
+
+  return {
+    // State
+    visibleKeys,
+    // Getters
+    visible,
+    options,
+    isDefault,
+    // Methods
+    isVisible,
+    toggle,
+    move,
+    reset,
+    queryState,
+    restoreQueryState,
+  }
+}
+
+export type ListColumns<TKey extends string = string, TSort extends string = string> = ReturnType<
+  typeof useListColumns<TKey, TSort>
+>
@@ -0,0 +1,117 @@
+/**
+ * Composable para exportar uma lista completa (todas as páginas da consulta atual) em CSV/XLSX
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * As páginas são buscadas uma a uma e convertidas em texto assim que chegam; entre uma
+ * página e outra o navegador volta a responder, então lojas grandes não travam a aba.
+ */
+
+import { ref, getCurrentScope, onScopeDispose, toValue, type MaybeRefOrGetter } from 'vue'
+import { RequestAbortedError } from '@/api/types'
+import { useErrorHandler } from '@/composables/useErrorHandler'
+import type { PageProgress, PageSource } from '@/composables/usePaginatedList'
+import {
+  createSpreadsheetWriter,
+  downloadBlob,
+  type ExportColumn,
+  type SpreadsheetFormat,
+} from '@/utils/spreadsheet'
+
+export interface ListExportOptions<TItem> {
+  source: PageSource<TItem>
+  columns: readonly ExportColumn<TItem>[]
+  /** Nome do arquivo sem extensão (a data de hoje é acrescentada) */
+  filename: MaybeRefOrGetter<string>
+  /** Nome da aba no XLSX (padrão: o nome do arquivo) */
+  sheetName?: MaybeRefOrGetter<string>
+}
+
+/**
+ * Fonte para listas já carregadas por inteiro (ex.: inventário do vendedor): uma única página
+ */
+export function inMemorySource<TItem>(items: MaybeRefOrGetter<TItem[]>): PageSource<TItem> {
+  return {
+    async forEachPage(onPage) {
+      const all = toValue(items)
+      await onPage(all, { page: 1, lastPage: 1, total: all.length })
+    },
+  }
+}
+
+function today(): string {
+  const now = new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+}
+
+export function useListExport<TItem>(options: ListExportOptions<TItem>) {
+  const { handleApiError } = useErrorHandler()
+
+  const exporting = ref(false)
+  const progress = ref<PageProgress | null>(null)
+  const error = ref<string | null>(null)
+
+  let abortController: AbortController | null = null
+
+  function cancel() {
+    abortController?.abort()
+    abortController = null
+    exporting.value = false
+    progress.value = null
+  }
+
+  /**
+   * Exporta todas as páginas no formato pedido e dispara o download
+   */
+  async function exportList(format: SpreadsheetFormat) {
+    cancel()
+    const controller = new AbortController()
+    abortController = controller
+
+    const filename = toValue(options.filename)
+    const writer = createSpreadsheetWriter(
+      format,
+      options.columns,
+      toValue(options.sheetName) ?? filename
+    )
+
+    exporting.value = true
+    progress.value = null
+    error.value = null
+
+    try {
+      await options.source.forEachPage(
+        (items, pageProgress) => {
+          writer.writeRows(items)
+          progress.value = pageProgress
+        },
+        { signal: controller.signal }
+      )
+      if (controller.signal.aborted) return
+
+      downloadBlob(writer.finish(), `${filename}-${today()}.${format}`)
+    } catch (err) {
+      if (err instanceof RequestAbortedError || controller.signal.aborted) return
+      error.value = handleApiError(err).message || 'Erro ao exportar'
+    } finally {
+      if (abortController === controller) {
+        abortController = null
+        exporting.value = false
+        progress.value = null
+      }
+    }
+  }
+
+  // Cancelar ao desmontar o componente dono da exportação
+  if (getCurrentScope()) {
+    onScopeDispose(cancel)
+  }
+
+  return {
+    exporting,
+    progress,
+    error,
+    exportList,
+    cancel,
+  }
+}
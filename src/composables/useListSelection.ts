@@ -0,0 +1,135 @@
+/**
+ * Composable para seleção de linhas de uma lista paginada (ações em massa)
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * Dois modos:
+ * - itens marcados um a um (mantidos ao trocar de página)
+ * - "todos do filtro": todas as páginas da consulta atual, exceto os desmarcados depois
+ * Mudar filtros ou ordenação limpa a seleção (ela deixaria de corresponder ao que se vê).
+ */
+
+import { ref, computed, watch, type Ref } from 'vue'
+import type { PageSource } from '@/composables/usePaginatedList'
+
+/** O que a seleção precisa da lista (ex.: retorno de `usePaginatedList`) */
+export interface SelectableList<TItem> extends PageSource<TItem> {
+  items: Readonly<Ref<TItem[]>>
+  total: Readonly<Ref<number>>
+  params: Readonly<Ref<object>>
+}
+
+function queryKey(params: object): string {
+  const query: Record<string, unknown> = { ...params }
+  delete query.page
+  delete query.per_page
+  return JSON.stringify(query)
+}
+
+export function useListSelection<TItem extends { id: number }>(list: SelectableList<TItem>) {
+  // State
+  const selected = ref(new Map<number, TItem>()) as Ref<Map<number, TItem>>
+  const allMatching = ref(false)
+  /** Desmarcados no modo "todos do filtro" */
+  const excluded = ref(new Set<number>())
+
+  const count = computed(() =>
+    allMatching.value ? Math.max(0, list.total.value - excluded.value.size) : selected.value.size
+  )
+  const hasSelection = computed(() => count.value > 0)
+
+  function isSelected(item: TItem): boolean {
+    return allMatching.value ? !excluded.value.has(item.id) : selected.value.has(item.id)
+  }
+
+  /** Todos os itens da página exibida estão marcados */
+  const pageSelected = computed(
+    () => list.items.value.length > 0 && list.items.value.every(item => isSelected(item))
+  )
+
+  /** Há mais itens no filtro do que os marcados (oferecer "selecionar todos") */
+  const canSelectAllMatching = computed(
+    () => !allMatching.value && pageSelected.value && list.total.value > selected.value.size
+  )
+
+  function setSelected(item: TItem, value: boolean) {
+    if (allMatching.value) {
+      if (value) excluded.value.delete(item.id)
+      else excluded.value.add(item.id)
+    } else if (value) {
+      selected.value.set(item.id, item)
+    } else {
+      selected.value.delete(item.id)
+    }
+  }
+
+  function toggle(item: TItem) {
+    setSelected(item, !isSelected(item))
+  }
+
+  /**
+   * Marca ou desmarca todos os itens da página exibida
+   */
+  function togglePage() {
+    const value = !pageSelected.value
+    for (const item of list.items.value) setSelected(item, value)
+  }
+
+  /**
+   * Seleciona todas as páginas do filtro atual
+   */
+  function selectAllMatching() {
+    allMatching.value = true
+    excluded.value.clear()
+    selected.value.clear()
+  }
+
+  function clear() {
+    allMatching.value = false
+    excluded.value.clear()
+    selected.value.clear()
+  }
+
+  /**
+   * Itens selecionados; no modo "todos do filtro", percorre todas as páginas da consulta
+   */
+  async function resolveItems(signal: AbortSignal): Promise<TItem[]> {
+    if (!allMatching.value) return Array.from(selected.value.values())
+
+    const items: TItem[] = []
+    const skip = new Set(excluded.value)
+    await list.forEachPage(
+      page => {
+        for (const item of page) {
+          if (!skip.has(item.id)) items.push(item)
+        }
+      },
+      { signal }
+    )
+    return items
+  }
+
+  watch(
+    () => queryKey(list.params.value),
+    (key, oldKey) => {
+      if (key !== oldKey) clear()
+    }
+  )
+
+  return {
+    /** Total de itens do filtro */
+    total: list.total,
+    allMatching,
+    count,
+    hasSelection,
+    pageSelected,
+    canSelectAllMatching,
+    isSelected,
+    toggle,
+    togglePage,
+    selectAllMatching,
+    clear,
+    resolveItems,
+  }
+}
+
+export type ListSelection<TItem extends { id: number }> = ReturnType<typeof useListSelection<TItem>>
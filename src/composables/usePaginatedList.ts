@@ -0,0 +1,481 @@
+/**
+ * Composable genérico para listas paginadas (busca, filtros, ordenação e paginação)
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * Cada lista (`useUserList`, `useSaleList`...) é apenas uma configuração deste composable:
+ * - `fetch`: endpoint paginado, recebe os parâmetros montados e o signal de cancelamento
+ * - `filters`: esquema dos filtros (parâmetro da API + valor inicial); cada filtro vira uma ref
+ * - `sortBy`/`sortOrder`: ordenação inicial, tipada pelas chaves `sort_by` aceitas pela API
+ * - `syncWithQuery`: filtros, ordenação e página lidos da/escritos na query da URL
+ */
+
+import { ref, computed, watch, getCurrentScope, onScopeDispose, type Ref } from 'vue'
+import { useRoute, useRouter, type LocationQuery } from 'vue-router'
+import type { ListQueryParams, PaginatedResponse } from '@/api/types'
+import { RequestAbortedError } from '@/api/types'
+import { useErrorHandler } from '@/composables/useErrorHandler'
+import {
+  formatQueryValue,
+  omitQueryKeys,
+  parseQueryOption,
+  parseQueryPage,
+  parseQueryValue,
+  queryMatches,
+  type ListQueryState,
+  type QueryValueType,
+} from '@/utils/listQuery'
+
+export type SortOrder = 'asc' | 'desc'
+
+export interface SortableListParams extends ListQueryParams {
+  sort_by?: string
+  sort_order?: SortOrder
+}
+
+export type SortKey<TParams extends SortableListParams> = NonNullable<TParams['sort_by']>
+
+/** Opções repassadas ao endpoint (cancelamento da busca substituída) */
+export interface ListFetchOptions {
+  signal: AbortSignal
+}
+
+type FilterValue = string | number | boolean | null | undefined
+
+/**
+ * Filtro da lista: parâmetro enviado à API e valor inicial (restaurado por `clearFilters`).
+ * Strings são enviadas sem espaços nas pontas; vazio, null e undefined não são enviados.
+ * `type` diz como ler o valor da URL; sem ele, vale o tipo do valor inicial (ou string).
+ */
+export interface FilterField<TParams, TValue extends FilterValue = FilterValue> {
+  param: keyof TParams & string
+  initial: TValue
+  type?: QueryValueType
+}
+
+export type FilterSchema<TParams> = Record<string, FilterField<TParams>>
+
+type AnyFilterSchema = Record<string, { param: string; initial: FilterValue }>
+
+/** Progresso ao percorrer todas as páginas da consulta */
+export interface PageProgress {
+  page: number
+  lastPage: number
+  total: number
+}
+
+/** Lista percorrível página a página (ex.: exportação) */
+export interface PageSource<TItem> {
+  forEachPage: (
+    onPage: (items: TItem[], progress: PageProgress) => void | Promise<void>,
+    options: ListFetchOptions
+  ) => Promise<void>
+}
+
+/** Opções comuns às listas, repassadas pelos composables de cada entidade */
+export interface ListOptions {
+  /** Espelhar o estado da lista na query da URL (apenas a lista principal da tela) */
+  syncWithQuery?: boolean
+}
+
+export type FilterRefs<TFilters extends AnyFilterSchema> = {
+  [K in keyof TFilters]: Ref<TFilters[K]['initial']>
+}
+
+export interface PaginatedListOptions<
+  TItem,
+  TParams extends SortableListParams,
+  TFilters extends AnyFilterSchema,
+> extends ListOptions {
+  fetch: (params: TParams, options: ListFetchOptions) => Promise<PaginatedResponse<TItem>>
+  filters: TFilters & NoInfer<FilterSchema<TParams>>
+  /** Campos de ordenação aceitos (valida `sort_by` vindo da URL) */
+  sortKeys: readonly NoInfer<SortKey<TParams>>[]
+  sortBy: NoInfer<SortKey<TParams>>
+  /** Ordem inicial, usada também ao escolher um novo campo (padrão: asc) */
+  sortOrder?: SortOrder
+  perPage?: number
+  /** Parâmetros fixos da tela, sempre enviados e não afetados por `clearFilters` */
+  fixedParams?: () => Partial<TParams>
+  /** Impede a busca (ex.: loja inválida); retorna a mensagem de erro a exibir */
+  blockedReason?: () => string | null
+  /** Mensagem quando o erro não traz uma própria */
+  errorMessage: string
+  /** Espera de `applyFiltersDebounced` (padrão: 300ms) */
+  debounceMs?: number
+}
+
+const DEFAULT_PER_PAGE = 15
+/** Limite máximo de `per_page` da API (usado ao percorrer todas as páginas) */
+const MAX_PER_PAGE = 100
+const DEFAULT_DEBOUNCE_MS = 300
+
+/**
+ * Busca todas as páginas de um endpoint paginado, uma por vez (ex.: catálogo inteiro)
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (params: { page: number; per_page: number }) => Promise<PaginatedResponse<T>>
+): Promise<T[]> {
+  const all: T[] = []
+  let page = 1
+  let lastPage = 1
+  do {
+    const response = await fetchPage({ page, per_page: MAX_PER_PAGE })
+    all.push(...response.data)
+    lastPage = response.meta.last_page || 1
+    page++
+  } while (page <= lastPage)
+  return all
+}
+
+function serializeFilter(value: FilterValue): Exclude<FilterValue, null> {
+  if (typeof value === 'string') {
+    const trimmed = value.trim()
+    return trimmed ? trimmed : undefined
+  }
+  return value ?? undefined
+}
+
+function filterType(field: { initial: FilterValue; type?: QueryValueType }): QueryValueType {
+  if (field.type) return field.type
+  const type = typeof field.initial
+  return type === 'number' || type === 'boolean' ? type : 'string'
+}
+
+export function usePaginatedList<
+  TItem,
+  TParams extends SortableListParams,
+  TFilters extends AnyFilterSchema,
+>(options: PaginatedListOptions<TItem, TParams, TFilters>) {
+  const { handleApiError } = useErrorHandler()
+  const initialSortOrder = options.sortOrder ?? 'asc'
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS
+
+  // State
+  const items = ref<TItem[]>([]) as Ref<TItem[]>
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Filtros (uma ref por entrada do esquema) e ordenação
+  const filterEntries = Object.entries(options.filters) as Array<
+    [keyof TFilters & string, FilterField<TParams>]
+  >
+  const filterRefs = {} as FilterRefs<TFilters>
+  for (const [key, field] of filterEntries) {
+    filterRefs[key] = ref(field.initial) as FilterRefs<TFilters>[typeof key]
+  }
+  const sortBy = ref(options.sortBy) as Ref<SortKey<TParams>>
+  const sortOrder = ref<SortOrder>(initialSortOrder)
+
+  // Paginação
+  const currentPage = ref(1)
+  const perPage = ref(options.perPage ?? DEFAULT_PER_PAGE)
+  const total = ref(0)
+  const lastPage = ref(1)
+  const meta = ref<PaginatedResponse<TItem>['meta'] | null>(null)
+  const links = ref<PaginatedResponse<TItem>['links'] | undefined>(undefined)
+
+  // Requisição em andamento: cancelada quando uma nova carga a substitui (a última busca vence)
+  let abortController: AbortController | null = null
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null
+
+  /**
+   * Constrói parâmetros de query para a API
+   */
+  const params = computed<TParams>(() => {
+    const queryParams: Record<string, unknown> = {
+      ...options.fixedParams?.(),
+      page: currentPage.value,
+      per_page: perPage.value,
+      sort_by: sortBy.value,
+      sort_order: sortOrder.value,
+    }
+
+    for (const [key, field] of filterEntries) {
+      const value = serializeFilter(filterRefs[key].value)
+      if (value !== undefined) {
+        queryParams[field.param] = value
+      }
+    }
+
+    return queryParams as TParams
+  })
+
+  function resetItems() {
+    items.value = []
+    meta.value = null
+    links.value = undefined
+  }
+
+  function cancelDebounce() {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer)
+      debounceTimer = null
+    }
+  }
+
+  /**
+   * Cancela a requisição em andamento (se houver)
+   */
+  function cancel() {
+    cancelDebounce()
+    abortController?.abort()
+    abortController = null
+    loading.value = false
+  }
+
+  /**
+   * Carrega a página atual
+   */
+  async function load() {
+    // A última busca vence: descartar a anterior, inclusive se a busca ficou bloqueada
+    cancel()
+    writeQuery()
+
+    const blocked = options.blockedReason?.() ?? null
+    if (blocked) {
+      resetItems()
+      error.value = blocked
+      return
+    }
+
+    const controller = new AbortController()
+    abortController = controller
+    loading.value = true
+    error.value = null
+
+    try {
+      const response = await options.fetch(params.value, { signal: controller.signal })
+
+      // Substituída por uma requisição mais recente enquanto aguardava
+      if (controller.signal.aborted) return
+
+      items.value = response.data
+      meta.value = response.meta
+      links.value = response.links
+      total.value = response.meta.total || 0
+      lastPage.value = response.meta.last_page || 1
+      currentPage.value = response.meta.current_page || 1
+    } catch (err) {
+      // Cancelada por uma requisição mais recente: o resultado dela é que vale
+      if (err instanceof RequestAbortedError) return
+
+      // Erros de validação: mostrar as mensagens dos campos (ex.: datas inválidas)
+      const { message, fieldErrors } = handleApiError(err)
+      const fieldMessages = Object.values(fieldErrors ?? {})
+        .flat()
+        .filter((msg): msg is string => typeof msg === 'string')
+
+      error.value =
+        fieldMessages.length > 0 ? fieldMessages.join(', ') : message || options.errorMessage
+      resetItems()
+    } finally {
+      // Só a requisição mais recente controla o estado de loading
+      if (abortController === controller) {
+        abortController = null
+        loading.value = false
+      }
+    }
+  }
+
+  /**
+   * Percorre todas as páginas da consulta atual (filtros e ordenação da tela), uma por vez.
+   * Cada página é entregue a `onPage` antes da próxima ser buscada; a lista exibida não muda.
+   */
+  async function forEachPage(
+    onPage: (items: TItem[], progress: PageProgress) => void | Promise<void>,
+    { signal }: ListFetchOptions
+  ) {
+    const blocked = options.blockedReason?.() ?? null
+    if (blocked) throw new Error(blocked)
+
+    const baseParams = params.value
+    let page = 1
+    let lastPageSeen = 1
+    do {
+      const response = await options.fetch(
+        { ...baseParams, page, per_page: MAX_PER_PAGE },
+        { signal }
+      )
+      lastPageSeen = response.meta.last_page || 1
+      await onPage(response.data, {
+        page,
+        lastPage: lastPageSeen,
+        total: response.meta.total || 0,
+      })
+      page++
+    } while (page <= lastPageSeen && !signal.aborted)
+  }
+
+  /**
+   * Aplica filtros e recarrega (reseta para página 1)
+   */
+  async function applyFilters() {
+    cancelDebounce()
+    currentPage.value = 1
+    await load()
+  }
+
+  /**
+   * Aplica filtros após uma pausa na digitação (ex.: campo de busca)
+   */
+  function applyFiltersDebounced() {
+    cancelDebounce()
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null
+      applyFilters()
+    }, debounceMs)
+  }
+
+  /**
+   * Limpa todos os filtros e recarrega
+   */
+  function clearFilters() {
+    for (const [key, field] of filterEntries) {
+      filterRefs[key].value = field.initial
+    }
+    sortBy.value = options.sortBy
+    sortOrder.value = initialSortOrder
+    currentPage.value = 1
+    load()
+  }
+
+  /**
+   * Muda para uma página específica
+   */
+  function setPage(page: number) {
+    if (page >= 1 && page <= lastPage.value) {
+      currentPage.value = page
+      load()
+    }
+  }
+
+  /**
+   * Muda ordenação (alterna asc/desc se mesmo campo, ou define novo campo)
+   */
+  function setSort(field: SortKey<TParams>) {
+    if (sortBy.value === field) {
+      sortOrder.value = sortOrder.value === 'asc' ? 'desc' : 'asc'
+    } else {
+      sortBy.value = field
+      sortOrder.value = initialSortOrder
+    }
+    load()
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sincronização com a URL: recarregar ou compartilhar o link mantém a lista, e
+  // voltar/avançar no navegador percorre os estados de filtro. Padrões ficam fora da URL.
+  // ---------------------------------------------------------------------------
+  const route = options.syncWithQuery ? useRoute() : null
+  const router = options.syncWithQuery ? useRouter() : null
+  const listRouteName = route?.name
+  const queryKeys = [
+    ...filterEntries.map(([, field]) => field.param),
+    'sort_by',
+    'sort_order',
+    'page',
+  ]
+  let queryWritten = false
+
+  function stateToQuery(): ListQueryState {
+    const query: ListQueryState = {}
+    for (const [key, field] of filterEntries) {
+      const value = serializeFilter(filterRefs[key].value)
+      if (value !== undefined && value !== serializeFilter(field.initial)) {
+        query[field.param] = formatQueryValue(value)
+      }
+    }
+    if (sortBy.value !== options.sortBy) query.sort_by = sortBy.value
+    if (sortOrder.value !== initialSortOrder) query.sort_order = sortOrder.value
+    if (currentPage.value > 1) query.page = String(currentPage.value)
+    return query
+  }
+
+  function applyQuery(query: LocationQuery) {
+    for (const [key, field] of filterEntries) {
+      const value = parseQueryValue(query[field.param], filterType(field))
+      filterRefs[key].value = value ?? field.initial
+    }
+    sortBy.value = parseQueryOption(query.sort_by, options.sortKeys) ?? options.sortBy
+    sortOrder.value =
+      parseQueryOption(query.sort_order, ['asc', 'desc'] as const) ?? initialSortOrder
+    currentPage.value = parseQueryPage(query.page) ?? 1
+  }
+
+  /**
+   * Grava o estado atual na URL (nova entrada no histórico; a primeira só normaliza a URL)
+   */
+  function writeQuery() {
+    if (!route || !router || route.name !== listRouteName) return
+    const query = stateToQuery()
+    if (!queryMatches(route.query, query, queryKeys)) {
+      const location = {
+        query: { ...omitQueryKeys(route.query, queryKeys), ...query },
+        hash: route.hash,
+      }
+      if (queryWritten) {
+        router.push(location)
+      } else {
+        router.replace(location)
+      }
+    }
+    queryWritten = true
+  }
+
+  /**
+   * Restaura um estado salvo (ex.: visualização salva) e recarrega a partir da página indicada
+   */
+  function restoreQueryState(state: ListQueryState) {
+    cancelDebounce()
+    applyQuery(state)
+    load()
+  }
+
+  if (route) {
+    applyQuery(route.query)
+
+    // Voltar/avançar (ou link interno com outra query): aplicar e recarregar
+    watch(
+      () => route.query,
+      query => {
+        if (route.name !== listRouteName) return
+        if (queryMatches(query, stateToQuery(), queryKeys)) return
+        applyQuery(query)
+        load()
+      }
+    )
+  }
+
+  // Cancelar ao desmontar o componente dono da lista
+  if (getCurrentScope()) {
+    onScopeDispose(cancel)
+  }
+
+  return {
+    // State
+    items,
+    loading,
+    error,
+    ...filterRefs,
+    sortBy,
+    sortOrder,
+    currentPage,
+    perPage,
+    total,
+    lastPage,
+    meta,
+    links,
+    params,
+    // Methods
+    queryState: stateToQuery,
+    restoreQueryState,
+    forEachPage,
+    load,
+    cancel,
+    applyFilters,
+    applyFiltersDebounced,
+    clearFilters,
+    setPage,
+    setSort,
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Composable: vendas estacionadas do usuário na loja (vários carrinhos em espera)
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * Só guarda e devolve os carrinhos: revalidar estoque ao retomar é papel de quem retoma.
+ */
+
+import { ref, watch, toValue, type MaybeRefOrGetter } from 'vue'
+import {
+  deleteParkedSale,
+  listParkedSales,
+  newParkedSaleId,
+  saveParkedSale,
+  type CartSnapshot,
+  type ParkedSale,
+} from '@/utils/cartStorage'
+
+export function useParkedSales(
+  storeId: MaybeRefOrGetter<number | null>,
+  userId: MaybeRefOrGetter<number | null>
+) {
+  const parked = ref<ParkedSale[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  function owner(): { storeId: number; userId: number } | null {
+    const store = toValue(storeId)
+    const user = toValue(userId)
+    return store && user ? { storeId: store, userId: user } : null
+  }
+
+  function fail(err: unknown, fallback: string) {
+    error.value = err instanceof Error ? err.message : fallback
+  }
+
+  async function load() {
+    const current = owner()
+    if (!current) {
+      parked.value = []
+      return
+    }
+
+    loading.value = true
+    error.value = null
+    try {
+      parked.value = await listParkedSales(current.storeId, current.userId)
+    } catch (err) {
+      parked.value = []
+      fail(err, 'Erro ao carregar vendas estacionadas')
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Estaciona o carrinho com um nome (ex.: nome do cliente)
+   */
+  async function park(
+    name: string,
+    cart: CartSnapshot,
+    details: Pick<ParkedSale, 'customer' | 'notes'>
+  ): Promise<ParkedSale | null> {
+    const current = owner()
+    if (!current) return null
+
+    const sale: ParkedSale = {
+      id: newParkedSaleId(),
+      store_id: current.storeId,
+      user_id: current.userId,
+      name,
+      cart,
+      customer: details.customer,
+      notes: details.notes,
+      parked_at: Date.now(),
+    }
+
+    error.value = null
+    try {
+      await saveParkedSale(sale)
+      parked.value = [...parked.value, sale]
+      return sale
+    } catch (err) {
+      fail(err, 'Erro ao estacionar a venda')
+      return null
+    }
+  }
+
+  async function discard(id: string): Promise<boolean> {
+    error.value = null
+    try {
+      await deleteParkedSale(id)
+      parked.value = parked.value.filter(sale => sale.id !== id)
+      return true
+    } catch (err) {
+      fail(err, 'Erro ao descartar a venda estacionada')
+      return false
+    }
+  }
+
+  /**
+   * Retira a venda da espera (ela deixa de estar estacionada) e a devolve para ser retomada
+   */
+  async function take(id: string): Promise<ParkedSale | null> {
+    const sale = parked.value.find(item => item.id === id)
+    if (!sale) return null
+    return (await discard(id)) ? sale : null
+  }
+
+  watch(
+    () => [toValue(storeId), toValue(userId)],
+    ([newStore, newUser], [oldStore, oldUser]) => {
+      if (newStore !== oldStore || newUser !== oldUser) load()
+    }
+  )
+
+  return {
+    parked,
+    loading,
+    error,
+    load,
+    park,
+    discard,
+    take,
+  }
+}
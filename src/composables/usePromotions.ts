@@ -0,0 +1,172 @@
+/**
+ * Composable: cadastro de promoções de uma loja (inclui as válidas para todas as lojas)
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * A ordem da lista é a prioridade de aplicação no PDV (ver `utils/discounts.ts`).
+ */
+
+import { ref, computed, watch, toValue, type MaybeRefOrGetter } from 'vue'
+import { getProducts } from '@/api/endpoints/products'
+import {
+  createPromotion,
+  deletePromotion,
+  getPromotions,
+  updatePromotion,
+} from '@/api/endpoints/promotions'
+import type { Product, Promotion, PromotionRequest } from '@/api/types'
+import { ValidationError } from '@/api/types'
+import { useErrorHandler } from '@/composables/useErrorHandler'
+import { fetchAllPages } from '@/composables/usePaginatedList'
+import { isPromotionActive, localDateString } from '@/utils/discounts'
+
+/**
+ * Erros de formulário que o backend também validaria (ex.: combo sem produtos)
+ */
+export function validatePromotion(data: PromotionRequest): Record<string, string[]> {
+  const errors: Record<string, string[]> = {}
+
+  if (!data.name.trim()) errors.name = ['O nome é obrigatório']
+
+  if (data.kind === 'combo') {
+    if (new Set(data.product_ids).size < 2) {
+      errors.product_ids = ['Escolha pelo menos dois produtos para o combo']
+    }
+  } else if (data.product_ids.length === 0 && !data.brand?.trim()) {
+    errors.product_ids = ['Escolha os produtos ou informe a marca']
+  }
+
+  if (data.kind !== 'combo' && !(data.quantity !== null && data.quantity >= 1)) {
+    errors.quantity = ['Informe a quantidade']
+  } else if (data.kind === 'nth-unit' && (data.quantity ?? 0) < 2) {
+    errors.quantity = ['A partir de 2 unidades (ex.: 2 para "2ª unidade")']
+  }
+
+  if (data.kind === 'nth-unit') {
+    if (!(data.percent !== null && data.percent > 0 && data.percent <= 100)) {
+      errors.percent = ['O desconto deve estar entre 0% e 100%']
+    }
+  } else if (!(data.price !== null && data.price >= 0)) {
+    errors.price = ['Informe o preço da promoção']
+  }
+
+  if (data.starts_at && data.ends_at && data.ends_at < data.starts_at) {
+    errors.ends_at = ['O fim deve ser depois do início']
+  }
+
+  return errors
+}
+
+export function usePromotions(storeId: MaybeRefOrGetter<number | null>) {
+  const { handleApiError } = useErrorHandler()
+
+  // State
+  const promotions = ref<Promotion[]>([])
+  const loading = ref(false)
+  const saving = ref(false)
+  const error = ref<string | null>(null)
+  const fieldErrors = ref<Record<string, string[]>>({})
+
+  // Catálogo (para escolher os produtos da promoção)
+  const products = ref<Product[]>([])
+  const productsLoading = ref(false)
+
+  const productsById = computed(() => new Map(products.value.map(p => [p.id, p])))
+
+  /** Promoções que o PDV aplica hoje nesta loja */
+  const activeIds = computed(() => {
+    const id = Number(toValue(storeId))
+    const today = localDateString()
+    return new Set(promotions.value.filter(p => isPromotionActive(p, id, today)).map(p => p.id))
+  })
+
+  async function load() {
+    const id = Number(toValue(storeId))
+    if (!id) {
+      promotions.value = []
+      return
+    }
+
+    loading.value = true
+    error.value = null
+    try {
+      promotions.value = await getPromotions({ store_id: id })
+    } catch (err) {
+      promotions.value = []
+      error.value = handleApiError(err).message || 'Erro ao carregar promoções'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  async function loadProducts() {
+    productsLoading.value = true
+    try {
+      products.value = await fetchAllPages(params => getProducts(params))
+    } catch (err) {
+      error.value = handleApiError(err).message || 'Erro ao carregar produtos'
+    } finally {
+      productsLoading.value = false
+    }
+  }
+
+  /**
+   * Salva a promoção (nova, ou atualiza `id`); retorna null se houver erros
+   */
+  async function save(data: PromotionRequest, id?: number): Promise<Promotion | null> {
+    fieldErrors.value = validatePromotion(data)
+    if (Object.keys(fieldErrors.value).length > 0) return null
+
+    saving.value = true
+    error.value = null
+    try {
+      const saved = id ? await updatePromotion(id, data) : await createPromotion(data)
+      const index = promotions.value.findIndex(p => p.id === saved.id)
+      if (index >= 0) promotions.value.splice(index, 1, saved)
+      else promotions.value.push(saved)
+      return saved
+    } catch (err) {
+      if (err instanceof ValidationError && err.errors) {
+        fieldErrors.value = err.errors
+      }
+      error.value = handleApiError(err).message || 'Erro ao salvar promoção'
+      return null
+    } finally {
+      saving.value = false
+    }
+  }
+
+  async function remove(promotion: Promotion): Promise<boolean> {
+    error.value = null
+    try {
+      await deletePromotion(promotion.id)
+      promotions.value = promotions.value.filter(p => p.id !== promotion.id)
+      return true
+    } catch (err) {
+      error.value = handleApiError(err).message || 'Erro ao remover promoção'
+      return false
+    }
+  }
+
+  watch(
+    () => toValue(storeId),
+    (newId, oldId) => {
+      if (newId !== oldId) load()
+    }
+  )
+
+  return {
+    promotions,
+    loading,
+    saving,
+    error,
+    fieldErrors,
+    products,
+    productsLoading,
+    productsById,
+    activeIds,
+    load,
+    loadProducts,
+    save,
+    remove,
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Composable para visualizações salvas de uma lista (filtros, ordenação e colunas nomeados)
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * A visualização guarda o estado da lista no formato da query (`queryState()` do
+ * `usePaginatedList`, mais o de `useListColumns`), então aplicá-la equivale a abrir a lista
+ * com aquela URL e aquelas colunas.
+ * - Pessoais: só o autor vê
+ * - Da loja: compartilhadas com todos da loja (exige `saved-view.share` na loja)
+ */
+
+import { ref, computed, toValue, watch, type MaybeRefOrGetter } from 'vue'
+import {
+  createSavedView,
+  deleteSavedView,
+  getSavedViews,
+  updateSavedView,
+} from '@/api/endpoints/savedViews'
+import type { SavedView, SavedViewList, SavedViewVisibility } from '@/api/types'
+import { useErrorHandler } from '@/composables/useErrorHandler'
+import { can } from '@/permissions'
+import { useAuthStore } from '@/stores/auth'
+import type { ListQueryState } from '@/utils/listQuery'
+
+/** Parte do `usePaginatedList` (ou do `useListColumns`) usada pelas visualizações */
+export interface SavedViewTarget {
+  queryState: () => ListQueryState
+  restoreQueryState: (state: ListQueryState) => void
+}
+
+/** A página não faz parte da visualização: aplicá-la sempre abre a primeira */
+function withoutPage(state: ListQueryState): ListQueryState {
+  const { ...copy } = state
+  delete copy.page
+  return copy
+}
+
+function sameQuery(a: ListQueryState, b: ListQueryState): boolean {
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key])
+}
+
+/**
+ * Com vários alvos, cada um lê do estado salvo só as próprias chaves
+ */
+export function useSavedViews(
+  list: SavedViewList,
+  target: SavedViewTarget | readonly SavedViewTarget[],
+  storeId: MaybeRefOrGetter<number | null>
+) {
+  const targets = ([] as SavedViewTarget[]).concat(target)
+  const authStore = useAuthStore()
+  const { handleApiError } = useErrorHandler()
+
+  const views = ref<SavedView[]>([])
+  const loading = ref(false)
+  const saving = ref(false)
+  const error = ref<string | null>(null)
+
+  const personalViews = computed(() => views.value.filter(view => view.visibility === 'personal'))
+  const storeViews = computed(() => views.value.filter(view => view.visibility === 'store'))
+
+  /** Loja com que é possível compartilhar (a loja da lista ou a selecionada no contexto) */
+  const canShare = computed(() => {
+    const id = toValue(storeId)
+    return !!id && can('saved-view.share', { storeId: id })
+  })
+
+  /** Visualização cujo estado é o atual da lista (se houver) */
+  const activeView = computed(() => {
+    const current = currentState()
+    return views.value.find(view => sameQuery(view.query, current)) ?? null
+  })
+
+  function currentState(): ListQueryState {
+    return withoutPage(Object.assign({}, ...targets.map(entry => entry.queryState())))
+  }
+
+  function canRemove(view: SavedView): boolean {
+    if (view.user.id === authStore.user?.id) return true
+    return (
+      view.visibility === 'store' &&
+      view.store_id !== null &&
+      can('saved-view.share', { storeId: view.store_id })
+    )
+  }
+
+  async function load() {
+    loading.value = true
+    error.value = null
+    try {
+      const id = toValue(storeId)
+      views.value = await getSavedViews({ list, store_id: id ?? undefined })
+    } catch (err) {
+      error.value = handleApiError(err).message || 'Erro ao carregar visualizações'
+      views.value = []
+    } finally {
+      loading.value = false
+    }
+  }
+
+  function apply(view: SavedView) {
+    for (const entry of targets) entry.restoreQueryState(view.query)
+  }
+
+  /**
+   * Salva o estado atual da lista; com `id`, substitui os filtros de uma visualização existente
+   */
+  async function saveCurrent(
+    name: string,
+    visibility: SavedViewVisibility,
+    id?: number
+  ): Promise<SavedView | null> {
+    const shareStoreId = toValue(storeId)
+    if (visibility === 'store' && !canShare.value) {
+      error.value = 'Sem permissão para compartilhar com a loja'
+      return null
+    }
+
+    saving.value = true
+    error.value = null
+    try {
+      const data = {
+        list,
+        name: name.trim(),
+        visibility,
+        store_id: visibility === 'store' ? shareStoreId : null,
+        query: currentState(),
+      }
+      const saved = id ? await updateSavedView(id, data) : await createSavedView(data)
+      const index = views.value.findIndex(view => view.id === saved.id)
+      if (index >= 0) {
+        views.value.splice(index, 1, saved)
+      } else {
+        views.value.push(saved)
+      }
+      return saved
+    } catch (err) {
+      const { message, fieldErrors } = handleApiError(err)
+      error.value = fieldErrors?.name?.[0] || message || 'Erro ao salvar visualização'
+      return null
+    } finally {
+      saving.value = false
+    }
+  }
+
+  async function remove(view: SavedView): Promise<boolean> {
+    error.value = null
+    try {
+      await deleteSavedView(view)
+      views.value = views.value.filter(entry => entry.id !== view.id)
+      return true
+    } catch (err) {
+      error.value = handleApiError(err).message || 'Erro ao excluir visualização'
+      return false
+    }
+  }
+
+  // Visualizações da loja mudam com a loja
+  watch(
+    () => toValue(storeId),
+    (newId, oldId) => {
+      if (newId !== oldId) load()
+    }
+  )
+
+  return {
+    // State
+    views,
+    loading,
+    saving,
+    error,
+    // Getters
+    personalViews,
+    storeViews,
+    activeView,
+    canShare,
+    // Methods
+    canRemove,
+    load,
+    apply,
+    saveCurrent,
+    remove,
+  }
+}
@@ -19,6 +19,8 @@ import type {
   User,
 } from '@/api/types'
 import { ValidationError } from '@/api/types'
+import { userMemberships } from '@/permissions'
+import type { ExportColumn } from '@/utils/spreadsheet'
 
 export type InventoryAction = 'add' | 'remove'
 
@@ -30,6 +32,16 @@ export interface InventoryLine {
   availableToRemove: number
 }
 
+/** Colunas da exportação do inventário do vendedor */
+export const inventoryLineExportColumns: ExportColumn<InventoryLine>[] = [
+  { header: 'Marca', value: line => line.storeProduct.product?.brand },
+  { header: 'Produto', value: line => line.storeProduct.product?.name ?? `Produto #${line.storeProduct.product_id}` },
+  { header: 'Sabor', value: line => line.storeProduct.product?.flavor },
+  { header: 'Com o vendedor', type: 'integer', value: line => line.availableToRemove },
+  { header: 'Disponível na loja', type: 'integer', value: line => line.availableToAdd },
+  { header: 'Preço de venda', type: 'currency', value: line => line.storeProduct.sale_price },
+]
+
 function clampInt(value: number, min: number, max: number): number {
   const v = Number.isFinite(value) ? Math.trunc(value) : 0
   return Math.max(min, Math.min(max, v))
@@ -124,12 +136,12 @@ export function useSellerInventoryManagement(
     return lines.value.reduce((sum, l) => sum + (l.availableToAdd || 0), 0)
   })
 
-  /** Vendedor pertence à loja selecionada (store_id do vendedor === storeId). */
+  /** Vendedor pertence à loja selecionada (loja principal ou uma das lojas adicionais). */
   const sellerBelongsToStore = computed(() => {
     const sid = storeIdRef.value
     const s = seller.value
     if (!sid || !s) return true
-    return s.store_id === sid
+    return userMemberships(s).some(membership => membership.store.id === sid)
   })
 
   /** Mensagem quando a loja selecionada não é a do vendedor (evita erro do backend). */
@@ -0,0 +1,74 @@
+/**
+ * Composable para acompanhar a expiração do access token
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ */
+
+import { ref, computed, onMounted, onUnmounted } from 'vue'
+import { useAuthStore } from '@/stores/auth'
+
+/** A partir de quando o aviso de expiração é exibido */
+const WARNING_THRESHOLD_MS = 5 * 60 * 1000
+const TICK_MS = 15 * 1000
+
+export function useSessionExpiry() {
+  const authStore = useAuthStore()
+
+  const now = ref(Date.now())
+  const extending = ref(false)
+  const extendError = ref<string | null>(null)
+  let timer: ReturnType<typeof setInterval> | null = null
+
+  const remainingMs = computed(() => {
+    if (!authStore.expiresAt) return null
+    return Math.max(0, authStore.expiresAt - now.value)
+  })
+
+  const minutesLeft = computed(() => {
+    if (remainingMs.value === null) return null
+    return Math.max(1, Math.ceil(remainingMs.value / 60000))
+  })
+
+  const showWarning = computed(
+    () =>
+      authStore.isAuthenticated &&
+      remainingMs.value !== null &&
+      remainingMs.value <= WARNING_THRESHOLD_MS
+  )
+
+  /**
+   * "Continuar conectado": renova o token antes que expire
+   */
+  async function staySignedIn() {
+    extending.value = true
+    extendError.value = null
+    try {
+      const ok = await authStore.refreshSession()
+      if (!ok) {
+        extendError.value =
+          'Não foi possível renovar a sessão. Salve seu trabalho e entre novamente.'
+      }
+    } finally {
+      extending.value = false
+      now.value = Date.now()
+    }
+  }
+
+  onMounted(() => {
+    timer = setInterval(() => {
+      now.value = Date.now()
+    }, TICK_MS)
+  })
+
+  onUnmounted(() => {
+    if (timer) clearInterval(timer)
+  })
+
+  return {
+    minutesLeft,
+    showWarning,
+    canRefresh: computed(() => authStore.canRefresh),
+    extending,
+    extendError,
+    staySignedIn,
+  }
+}
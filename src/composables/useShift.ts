@@ -0,0 +1,137 @@
+/**
+ * Composable: turno de caixa do usuário autenticado na loja (abrir, movimentar, fechar)
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ */
+
+import { ref, watch, toValue, type MaybeRefOrGetter } from 'vue'
+import { addCashMovement, closeShift, getCurrentShift, openShift } from '@/api/endpoints/shifts'
+import type { CashMovementRequest, CloseShiftRequest, Shift } from '@/api/types'
+import { ValidationError } from '@/api/types'
+import { useErrorHandler } from '@/composables/useErrorHandler'
+
+export function useShift(storeId: MaybeRefOrGetter<number | null>) {
+  const { handleApiError } = useErrorHandler()
+
+  // State
+  const shift = ref<Shift | null>(null)
+  const loading = ref(false)
+  const saving = ref(false)
+  const error = ref<string | null>(null)
+  const fieldErrors = ref<Record<string, string[]>>({})
+
+  function currentStoreId(): number {
+    return Number(toValue(storeId)) || 0
+  }
+
+  function fail(err: unknown, fallback: string) {
+    if (err instanceof ValidationError && err.errors) {
+      fieldErrors.value = err.errors
+    }
+    error.value = handleApiError(err).message || fallback
+  }
+
+  /**
+   * Carrega o turno aberto (null se o caixa estiver fechado)
+   */
+  async function load() {
+    const id = currentStoreId()
+    if (!id) {
+      shift.value = null
+      return
+    }
+
+    loading.value = true
+    error.value = null
+    try {
+      shift.value = await getCurrentShift(id)
+    } catch (err) {
+      shift.value = null
+      fail(err, 'Erro ao carregar o caixa')
+    } finally {
+      loading.value = false
+    }
+  }
+
+  async function open(openingFloat: number, notes: string | null): Promise<Shift | null> {
+    const id = currentStoreId()
+    if (!id) return null
+
+    saving.value = true
+    error.value = null
+    fieldErrors.value = {}
+    try {
+      shift.value = await openShift(id, { opening_float: openingFloat, notes })
+      return shift.value
+    } catch (err) {
+      fail(err, 'Erro ao abrir o caixa')
+      return null
+    } finally {
+      saving.value = false
+    }
+  }
+
+  /**
+   * Registra entrada/saída de dinheiro no turno aberto
+   */
+  async function addMovement(data: CashMovementRequest): Promise<boolean> {
+    const id = currentStoreId()
+    const current = shift.value
+    if (!id || !current) return false
+
+    saving.value = true
+    error.value = null
+    fieldErrors.value = {}
+    try {
+      const movement = await addCashMovement(id, current.id, data)
+      current.movements = [...(current.movements ?? []), movement]
+      return true
+    } catch (err) {
+      fail(err, 'Erro ao registrar movimentação')
+      return false
+    } finally {
+      saving.value = false
+    }
+  }
+
+  /**
+   * Fecha o turno; o turno fechado é retornado (e o caixa fica sem turno aberto)
+   */
+  async function close(data: CloseShiftRequest): Promise<Shift | null> {
+    const id = currentStoreId()
+    const current = shift.value
+    if (!id || !current) return null
+
+    saving.value = true
+    error.value = null
+    fieldErrors.value = {}
+    try {
+      const closed = await closeShift(id, current.id, data)
+      shift.value = null
+      return closed
+    } catch (err) {
+      fail(err, 'Erro ao fechar o caixa')
+      return null
+    } finally {
+      saving.value = false
+    }
+  }
+
+  watch(
+    () => toValue(storeId),
+    (newId, oldId) => {
+      if (newId !== oldId) load()
+    }
+  )
+
+  return {
+    shift,
+    loading,
+    saving,
+    error,
+    fieldErrors,
+    load,
+    open,
+    addMovement,
+    close,
+  }
+}
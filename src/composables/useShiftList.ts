@@ -0,0 +1,38 @@
+/**
+ * Composable para gerenciar histórico de turnos de caixa
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ */
+
+import { toValue, type MaybeRefOrGetter } from 'vue'
+import { getShifts } from '@/api/endpoints/shifts'
+import {
+  usePaginatedList,
+  type ListFetchOptions,
+  type ListOptions,
+} from '@/composables/usePaginatedList'
+import type { ShiftStatus, ShiftsListParams } from '@/api/types'
+
+function validStoreId(storeId: number | null): storeId is number {
+  return typeof storeId === 'number' && storeId > 0
+}
+
+export function useShiftList(
+  storeId: MaybeRefOrGetter<number | null>,
+  listOptions: ListOptions = {}
+) {
+  return usePaginatedList({
+    ...listOptions,
+    fetch: (params: ShiftsListParams, options: ListFetchOptions) =>
+      getShifts(Number(toValue(storeId)), params, options),
+    filters: {
+      status: { param: 'status', initial: '' as ShiftStatus | '' },
+      from: { param: 'from', initial: '' },
+      to: { param: 'to', initial: '' },
+    },
+    blockedReason: () => (validStoreId(toValue(storeId)) ? null : 'Loja inválida'),
+    sortKeys: ['opened_at', 'closed_at'],
+    sortBy: 'opened_at',
+    sortOrder: 'desc',
+    errorMessage: 'Erro ao carregar turnos',
+  })
+}
@@ -0,0 +1,66 @@
+/**
+ * Composable: vendas de um turno de caixa e conferência esperado × contado
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * `counted` são os valores conferidos: os digitados no fechamento (turno aberto) ou os
+ * gravados no turno (fechado).
+ */
+
+import { ref, computed, watch, toValue, type MaybeRefOrGetter } from 'vue'
+import { getSales } from '@/api/endpoints/sales'
+import type { PaymentMethod, Sale, Shift } from '@/api/types'
+import { useErrorHandler } from '@/composables/useErrorHandler'
+import { fetchAllPages } from '@/composables/usePaginatedList'
+import { shiftReport } from '@/utils/shifts'
+
+export function useShiftReport(
+  shift: MaybeRefOrGetter<Shift | null>,
+  counted: MaybeRefOrGetter<Partial<Record<PaymentMethod, number>> | null>
+) {
+  const { handleApiError } = useErrorHandler()
+
+  const sales = ref<Sale[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  const report = computed(() => {
+    const current = toValue(shift)
+    return current ? shiftReport(current, sales.value, toValue(counted)) : null
+  })
+
+  async function load() {
+    const current = toValue(shift)
+    if (!current) {
+      sales.value = []
+      return
+    }
+
+    loading.value = true
+    error.value = null
+    try {
+      sales.value = await fetchAllPages(params =>
+        getSales(current.store_id, { ...params, shift_id: current.id })
+      )
+    } catch (err) {
+      sales.value = []
+      error.value = handleApiError(err).message || 'Erro ao carregar vendas do turno'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  watch(
+    () => toValue(shift)?.id,
+    (newId, oldId) => {
+      if (newId !== oldId) load()
+    }
+  )
+
+  return {
+    sales,
+    loading,
+    error,
+    report,
+    load,
+  }
+}
@@ -1,4 +1,5 @@
 import { computed, isRef, ref, type ComputedRef, type Ref } from 'vue'
+import { cacheTags, invalidateTags } from '@/api/queryCache'
 
 export type StockUpdateMeta = {
   source?: string
@@ -58,6 +59,7 @@ type StoreIdInput = number | Ref<number | null> | ComputedRef<number | null>
  * Sincronização centralizada de estoque:
  * - Emite evento global + grava token no localStorage
  * - Escuta eventos/focus/visibility e dispara refresh do caller
+ * - Invalida o cache de consultas da loja antes do refresh, para que ele busque da API
  */
 export function useStockSync(storeId: StoreIdInput) {
   const storeIdRef: Ref<number | null> =
@@ -84,6 +86,7 @@ export function useStockSync(storeId: StoreIdInput) {
       saleId: meta?.saleId,
     }
 
+    invalidateTags(cacheTags.storeProducts(id))
     localStorage.setItem(STORAGE_KEY, JSON.stringify(ev))
     window.dispatchEvent(new CustomEvent<StockUpdateEvent>(EVENT_NAME, { detail: ev }))
   }
@@ -115,6 +118,8 @@ export function useStockSync(storeId: StoreIdInput) {
     if (isHandling) return
     isHandling = true
     try {
+      // Atualização vinda de outra aba: o cache desta aba ainda não sabe dela
+      invalidateTags(cacheTags.storeProducts(pending.storeId))
       await onRefresh()
       clearPending()
     } finally {
@@ -135,6 +140,7 @@ export function useStockSync(storeId: StoreIdInput) {
       isHandling = true
       try {
         clearPending()
+        invalidateTags(cacheTags.storeProducts(ev.storeId))
         await onRefresh()
       } finally {
         isHandling = false
@@ -1,65 +1,94 @@
 /**
  * Composable para gerenciar o contexto de loja atual
- * Admin pode selecionar loja; Manager/Seller usa sua loja atribuída
+ * Admin pode selecionar qualquer loja; demais usuários escolhem entre as lojas das quais
+ * são membros (com uma só loja, ela é fixa)
  */
 
 import { ref, computed, watch } from 'vue'
 import { useAuthStore } from '@/stores/auth'
 import { getStores } from '@/api/endpoints/stores'
 import type { Store } from '@/api/types'
+import { broadcastToTabs, onTabMessage } from '@/utils/tabSync'
+import { can, userMemberships } from '@/permissions'
+
+type StoreOption = Pick<Store, 'id' | 'name'>
 
 const currentStoreId = ref<number | null>(null)
 const stores = ref<Store[]>([])
 const loading = ref(false)
 
+const STORES_STALE_TIME_MS = 5 * 60 * 1000
+
+function persistStoreId(id: number | null) {
+  if (id) {
+    localStorage.setItem('currentStoreId', String(id))
+  } else {
+    localStorage.removeItem('currentStoreId')
+  }
+}
+
+// Loja selecionada em outra aba: aplicar aqui também (sem retransmitir)
+onTabMessage(message => {
+  if (message.type !== 'store-selected') return
+  currentStoreId.value = message.storeId
+  persistStoreId(message.storeId)
+})
+
 /**
  * Composable para gerenciar contexto de loja
  */
 export function useStoreContext() {
   const authStore = useAuthStore()
 
-  // Store ID atual: Admin pode selecionar, Manager/Seller usa sua loja
+  // Acesso a todas as lojas (Admin) ou apenas às lojas das quais o usuário é membro
+  const canSwitchAnyStore = computed(() => can('store.switch'))
+  const memberStores = computed<StoreOption[]>(() =>
+    userMemberships(authStore.user).map(membership => membership.store)
+  )
+
+  // Seletor de loja: Admin ou membro de mais de uma loja; caso contrário, é read-only
+  const canChangeStore = computed(() => canSwitchAnyStore.value || memberStores.value.length > 1)
+
+  // Store ID atual: Admin seleciona livremente; membros, apenas entre as suas lojas
+  // (seleção fora da lista cai na primeira loja, que é a principal)
   const storeId = computed(() => {
-    if (authStore.user?.role === 'admin') {
-      const id = currentStoreId.value
+    const id = currentStoreId.value
+    if (canSwitchAnyStore.value) {
       return typeof id === 'number' ? id : null
     }
-    const id = authStore.user?.store_id
-    return typeof id === 'number' ? id : null
+    if (memberStores.value.some(store => store.id === id)) return id
+    return memberStores.value[0]?.id ?? null
   })
 
-  // Se é Admin, pode alterar; caso contrário, é read-only
-  const canChangeStore = computed(() => authStore.user?.role === 'admin')
-
-  // Opções de lojas para Admin
-  const storeOptions = computed(() => stores.value)
+  // Opções do seletor
+  const storeOptions = computed<StoreOption[]>(() =>
+    canSwitchAnyStore.value ? stores.value : memberStores.value
+  )
 
   // Nome da loja atual
   const currentStoreName = computed(() => {
     if (!storeId.value) return null
-    const store = stores.value.find(s => s.id === storeId.value)
+    const store = storeOptions.value.find(s => s.id === storeId.value)
     return store?.name ?? null
   })
 
   /**
-   * Define a loja atual (apenas Admin)
+   * Define a loja atual (Admin: qualquer loja; membros: uma das suas lojas)
    */
   function setCurrentStoreId(id: number | null) {
     if (!canChangeStore.value) return
+    if (!canSwitchAnyStore.value && !memberStores.value.some(store => store.id === id)) return
     currentStoreId.value = id
-    // Persistir no localStorage para Admin
-    if (id) {
-      localStorage.setItem('currentStoreId', String(id))
-    } else {
-      localStorage.removeItem('currentStoreId')
-    }
+    // Persistir no localStorage e avisar as outras abas
+    persistStoreId(id)
+    broadcastToTabs({ type: 'store-selected', storeId: id })
   }
 
   /**
-   * Carrega lojas (apenas Admin precisa)
+   * Carrega lojas (apenas Admin precisa; membros usam as lojas do próprio usuário)
    */
   async function loadStores() {
-    if (authStore.user?.role !== 'admin') {
+    if (!canSwitchAnyStore.value) {
       stores.value = []
       return
     }
@@ -67,7 +96,18 @@ export function useStoreContext() {
     loading.value = true
     try {
       // Não enviar is_active se não for necessário - deixar o backend retornar todas
-      const response = await getStores({ per_page: 100 })
+      // Lista de lojas muda raramente: cache longo, invalidado ao criar/editar/remover loja
+      const response = await getStores(
+        { per_page: 100 },
+        {
+          cache: {
+            staleTime: STORES_STALE_TIME_MS,
+            onRevalidate: fresh => {
+              stores.value = fresh.data
+            },
+          },
+        }
+      )
       stores.value = response.data
     } catch (error) {
       console.error('Erro ao carregar lojas:', error)
@@ -81,16 +121,17 @@ export function useStoreContext() {
    * Inicializa o contexto de loja
    */
   function initialize() {
-    if (authStore.user?.role === 'admin') {
-      // Admin: carregar lojas e restaurar seleção do localStorage
+    if (canChangeStore.value) {
+      // Admin ou membro de várias lojas: restaurar seleção do localStorage
+      // (para membros, `storeId` ignora uma loja salva que não é deles)
       loadStores()
       const savedStoreId = localStorage.getItem('currentStoreId')
       if (savedStoreId) {
         currentStoreId.value = Number(savedStoreId)
       }
     } else {
-      // Manager/Seller: usar store_id do usuário
-      currentStoreId.value = authStore.user?.store_id ?? null
+      // Uma só loja: a loja do usuário
+      currentStoreId.value = memberStores.value[0]?.id ?? null
       stores.value = []
     }
   }
@@ -108,6 +149,7 @@ export function useStoreContext() {
     storeId,
     currentStoreId: storeId,
     canChangeStore,
+    canSwitchAnyStore,
     storeOptions,
     currentStoreName,
     stores,
@@ -0,0 +1,115 @@
+/**
+ * Composable para ações em massa no inventário de uma loja
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * Ativar/desativar, estoque mínimo, reajuste de preço e remoção dos produtos selecionados
+ * (ou de todos do filtro), executados pelo `useBatchRunner`.
+ */
+
+import { toValue, type MaybeRefOrGetter } from 'vue'
+import { deleteStoreProduct, updateStoreProduct } from '@/api/endpoints/storeProducts'
+import { ApiError, type StoreProduct } from '@/api/types'
+import { useBatchRunner, type BatchResult } from '@/composables/useBatchRunner'
+import { useListSelection, type SelectableList } from '@/composables/useListSelection'
+
+export type PriceField = 'sale_price' | 'cost_price'
+
+/** Reajuste de preço: percentual (10 = +10%) ou valor fixo somado (-2 = R$ 2,00 a menos) */
+export interface PriceChange {
+  field: PriceField
+  mode: 'percent' | 'absolute'
+  amount: number
+}
+
+export interface StoreProductBulkActionsOptions {
+  /** Após cada execução (ex.: recarregar a lista, avisar outras abas) */
+  onFinish?: (result: BatchResult) => void
+}
+
+/**
+ * Novo preço após o reajuste, arredondado em centavos; lança erro se ficar negativo
+ */
+export function applyPriceChange(current: string, change: PriceChange): number {
+  const price = parseFloat(current) || 0
+  const next = change.mode === 'percent' ? price * (1 + change.amount / 100) : price + change.amount
+  const rounded = Math.round(next * 100) / 100
+  if (rounded < 0) throw new Error('O preço ficaria negativo')
+  return rounded
+}
+
+/** Nome exibido nas falhas */
+export function storeProductLabel(storeProduct: StoreProduct): string {
+  const product = storeProduct.product
+  if (!product) return `Produto #${storeProduct.product_id}`
+  return [product.brand, product.name, product.flavor].filter(Boolean).join(' - ')
+}
+
+export function useStoreProductBulkActions(
+  storeId: MaybeRefOrGetter<number | null>,
+  list: SelectableList<StoreProduct>,
+  options: StoreProductBulkActionsOptions = {}
+) {
+  const selection = useListSelection(list)
+  const runner = useBatchRunner<StoreProduct>({
+    onFinish: result => {
+      selection.clear()
+      options.onFinish?.(result)
+    },
+  })
+
+  function currentStoreId(): number {
+    return Number(toValue(storeId))
+  }
+
+  function run(label: string, task: (storeProduct: StoreProduct) => Promise<unknown>) {
+    return runner.run(label, signal => selection.resolveItems(signal), task)
+  }
+
+  function setActive(isActive: boolean) {
+    const id = currentStoreId()
+    return run(isActive ? 'Ativar' : 'Desativar', storeProduct =>
+      updateStoreProduct(id, storeProduct.id, { is_active: isActive })
+    )
+  }
+
+  function setMinStockLevel(level: number) {
+    const id = currentStoreId()
+    return run('Alterar estoque mínimo', storeProduct =>
+      updateStoreProduct(id, storeProduct.id, { min_stock_level: level })
+    )
+  }
+
+  function changePrice(change: PriceChange) {
+    const id = currentStoreId()
+    const label = change.field === 'sale_price' ? 'Reajustar preço de venda' : 'Reajustar custo'
+    return run(label, async storeProduct =>
+      updateStoreProduct(id, storeProduct.id, {
+        [change.field]: applyPriceChange(storeProduct[change.field], change),
+      })
+    )
+  }
+
+  function remove() {
+    const id = currentStoreId()
+    return run('Remover', async storeProduct => {
+      try {
+        await deleteStoreProduct(id, storeProduct.id)
+      } catch (err) {
+        // 409: produto com histórico de vendas não pode sair do inventário
+        if (err instanceof ApiError && err.status === 409) {
+          throw new Error('Tem histórico de vendas; desative em vez de remover')
+        }
+        throw err
+      }
+    })
+  }
+
+  return {
+    selection,
+    runner,
+    setActive,
+    setMinStockLevel,
+    changePrice,
+    remove,
+  }
+}
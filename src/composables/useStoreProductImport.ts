@@ -0,0 +1,471 @@
+/**
+ * Composable: importação de produtos do inventário por CSV (catálogo + preços + estoque)
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * Etapas:
+ * 1. upload: lê o arquivo
+ * 2. mapping: associa colunas do CSV aos campos (sugestão automática pelo cabeçalho)
+ * 3. preview: casa cada linha com o catálogo (marca + nome + sabor) e mostra o que muda
+ * 4. result: aplica linha a linha; erros de validação (422) ficam na própria linha
+ */
+
+import { ref, computed, toValue, type MaybeRefOrGetter } from 'vue'
+import { createProduct, getProducts } from '@/api/endpoints/products'
+import {
+  createStoreProduct,
+  getStoreProducts,
+  updateStoreProduct,
+} from '@/api/endpoints/storeProducts'
+import type { Product, StoreProduct, UpdateStoreProductRequest } from '@/api/types'
+import { ValidationError } from '@/api/types'
+import { useErrorHandler } from '@/composables/useErrorHandler'
+import { fetchAllPages } from '@/composables/usePaginatedList'
+import { can } from '@/permissions'
+import { isAmbiguousDecimal, normalizeText, parseCsv, parseDecimal } from '@/utils/csv'
+
+export type ImportStep = 'upload' | 'mapping' | 'preview' | 'result'
+
+export type ImportField =
+  | 'brand'
+  | 'name'
+  | 'flavor'
+  | 'cost_price'
+  | 'sale_price'
+  | 'stock_quantity'
+  | 'min_stock_level'
+
+type NumericField = 'cost_price' | 'sale_price' | 'stock_quantity' | 'min_stock_level'
+
+export interface ImportFieldDefinition {
+  field: ImportField
+  label: string
+  required: boolean
+  /** Cabeçalhos reconhecidos automaticamente (comparados sem acentos/maiúsculas) */
+  aliases: string[]
+}
+
+export const importFields: ImportFieldDefinition[] = [
+  { field: 'brand', label: 'Marca', required: true, aliases: ['marca', 'brand'] },
+  { field: 'name', label: 'Produto', required: true, aliases: ['produto', 'nome', 'name'] },
+  { field: 'flavor', label: 'Sabor', required: false, aliases: ['sabor', 'flavor'] },
+  {
+    field: 'cost_price',
+    label: 'Preço de custo',
+    required: false,
+    aliases: ['preco de custo', 'custo', 'cost_price', 'cost price'],
+  },
+  {
+    field: 'sale_price',
+    label: 'Preço de venda',
+    required: false,
+    aliases: ['preco de venda', 'venda', 'preco', 'sale_price', 'sale price'],
+  },
+  {
+    field: 'stock_quantity',
+    label: 'Estoque',
+    required: false,
+    aliases: ['estoque', 'quantidade', 'qtd', 'stock_quantity', 'stock'],
+  },
+  {
+    field: 'min_stock_level',
+    label: 'Estoque mínimo',
+    required: false,
+    aliases: ['estoque minimo', 'minimo', 'min_stock_level'],
+  },
+]
+
+const NUMERIC_FIELDS: NumericField[] = [
+  'cost_price',
+  'sale_price',
+  'stock_quantity',
+  'min_stock_level',
+]
+
+/** Rótulos dos campos nos erros do backend (422) */
+const ERROR_FIELD_LABELS: Record<string, string> = {
+  product_id: 'Produto',
+  ...Object.fromEntries(importFields.map(def => [def.field, def.label])),
+}
+
+/**
+ * O que a linha fará ao aplicar:
+ * - create-product: cria o produto no catálogo e o adiciona à loja
+ * - missing-product: produto não cadastrado e criação desativada (linha ignorada)
+ * - create: produto existe no catálogo, mas ainda não na loja
+ * - update: produto já está na loja e algum valor muda
+ * - unchanged: nada a fazer
+ * - invalid: linha com problemas (ignorada)
+ */
+export type ImportRowAction =
+  | 'create-product'
+  | 'missing-product'
+  | 'create'
+  | 'update'
+  | 'unchanged'
+  | 'invalid'
+
+export interface ImportRowChange {
+  field: NumericField
+  label: string
+  from: number | null
+  to: number
+}
+
+export interface ImportRow {
+  /** Linha no arquivo (o cabeçalho é a linha 1; linhas vazias não contam) */
+  line: number
+  brand: string
+  name: string
+  flavor: string
+  values: Partial<Record<NumericField, number>>
+  product: Product | null
+  storeProduct: StoreProduct | null
+  changes: ImportRowChange[]
+  problems: string[]
+  /** Avisos que não impedem a linha (ex.: estoque ignorado por falta de permissão) */
+  warnings: string[]
+}
+
+export interface ImportRowResult {
+  /** Ação executada (a linha aplicada deixa de ter pendências) */
+  action: ImportRowAction
+  status: 'success' | 'error'
+  messages: string[]
+}
+
+function productKey(brand: string, name: string, flavor: string): string {
+  return [brand, name, flavor].map(normalizeText).join('|')
+}
+
+function emptyMapping(): Record<ImportField, number | null> {
+  return Object.fromEntries(importFields.map(def => [def.field, null])) as Record<
+    ImportField,
+    number | null
+  >
+}
+
+export function useStoreProductImport(storeId: MaybeRefOrGetter<number | null>) {
+  const { handleApiError } = useErrorHandler()
+
+  const step = ref<ImportStep>('upload')
+  const fileName = ref<string | null>(null)
+  const headers = ref<string[]>([])
+  const records = ref<string[][]>([])
+  const mapping = ref<Record<ImportField, number | null>>(emptyMapping())
+  const createMissingProducts = ref(false)
+  const rows = ref<ImportRow[]>([])
+  const results = ref<Record<number, ImportRowResult>>({})
+
+  const loading = ref(false)
+  const applying = ref(false)
+  const progress = ref({ done: 0, total: 0 })
+  const error = ref<string | null>(null)
+
+  const canCreateProducts = computed(() => can('product.create'))
+  const canAdjustStock = computed(() => {
+    const id = toValue(storeId)
+    return !!id && can('store-product.adjust-stock', { storeId: id })
+  })
+
+  /** Campos obrigatórios ainda sem coluna */
+  const missingFields = computed(() =>
+    importFields.filter(def => def.required && mapping.value[def.field] === null)
+  )
+
+  function rowAction(row: ImportRow): ImportRowAction {
+    if (row.problems.length > 0) return 'invalid'
+    if (!row.product) return createMissingProducts.value ? 'create-product' : 'missing-product'
+    if (!row.storeProduct) return 'create'
+    return row.changes.length > 0 ? 'update' : 'unchanged'
+  }
+
+  /** Linhas que serão enviadas ao aplicar */
+  const pendingRows = computed(() =>
+    rows.value.filter(row => {
+      const action = rowAction(row)
+      return action === 'create-product' || action === 'create' || action === 'update'
+    })
+  )
+
+  const summary = computed(() => {
+    const counts: Record<ImportRowAction, number> = {
+      'create-product': 0,
+      'missing-product': 0,
+      create: 0,
+      update: 0,
+      unchanged: 0,
+      invalid: 0,
+    }
+    rows.value.forEach(row => counts[rowAction(row)]++)
+    return counts
+  })
+
+  const failedCount = computed(
+    () => Object.values(results.value).filter(result => result.status === 'error').length
+  )
+
+  function reset() {
+    step.value = 'upload'
+    fileName.value = null
+    headers.value = []
+    records.value = []
+    mapping.value = emptyMapping()
+    rows.value = []
+    results.value = {}
+    error.value = null
+  }
+
+  /**
+   * Lê o CSV e sugere o mapeamento pelas colunas do cabeçalho
+   */
+  async function loadFile(file: File) {
+    error.value = null
+    const [headerRow, ...dataRows] = parseCsv(await file.text())
+    if (!headerRow || dataRows.length === 0) {
+      error.value = 'O arquivo não tem linhas de dados (a primeira linha deve ser o cabeçalho)'
+      return
+    }
+
+    fileName.value = file.name
+    headers.value = headerRow.map(header => header.trim())
+    records.value = dataRows
+
+    const normalizedHeaders = headers.value.map(normalizeText)
+    const guessed = emptyMapping()
+    for (const def of importFields) {
+      const index = normalizedHeaders.findIndex(header => def.aliases.includes(header))
+      guessed[def.field] = index >= 0 ? index : null
+    }
+    mapping.value = guessed
+    step.value = 'mapping'
+  }
+
+  function cell(record: string[], field: ImportField): string {
+    const index = mapping.value[field]
+    return index === null ? '' : (record[index] ?? '').trim()
+  }
+
+  /**
+   * Casa as linhas com o catálogo e o inventário atuais e calcula as diferenças
+   */
+  async function buildPreview() {
+    const id = toValue(storeId)
+    if (!id) {
+      error.value = 'Loja inválida'
+      return
+    }
+    if (missingFields.value.length > 0) {
+      error.value = `Escolha as colunas de: ${missingFields.value.map(def => def.label).join(', ')}`
+      return
+    }
+
+    loading.value = true
+    error.value = null
+    try {
+      const [products, storeProducts] = await Promise.all([
+        fetchAllPages(params => getProducts(params)),
+        fetchAllPages(params => getStoreProducts(id, params)),
+      ])
+
+      const productsByKey = new Map(
+        products.map(product => [productKey(product.brand, product.name, product.flavor), product])
+      )
+      const storeProductsByProductId = new Map(storeProducts.map(sp => [sp.product_id, sp]))
+      const firstLineByKey = new Map<string, number>()
+
+      rows.value = records.value.map((record, index) => {
+        const line = index + 2
+        const brand = cell(record, 'brand')
+        const name = cell(record, 'name')
+        const flavor = cell(record, 'flavor')
+        const problems: string[] = []
+        const warnings: string[] = []
+        const values: ImportRow['values'] = {}
+
+        if (!brand) problems.push('Marca vazia')
+        if (!name) problems.push('Produto vazio')
+
+        for (const field of NUMERIC_FIELDS) {
+          const raw = cell(record, field)
+          if (!raw) continue
+          const label = importFields.find(def => def.field === field)!.label
+          const value = parseDecimal(raw)
+          if (isAmbiguousDecimal(raw)) {
+            problems.push(`${label} ambíguo: "${raw}" (use 1234 para milhar ou 1,234 para decimal)`)
+          } else if (value === null || value < 0) {
+            problems.push(`${label} inválido: "${raw}"`)
+          } else if (
+            (field === 'stock_quantity' || field === 'min_stock_level') &&
+            !Number.isInteger(value)
+          ) {
+            problems.push(`${label} deve ser um número inteiro: "${raw}"`)
+          } else {
+            values[field] = value
+          }
+        }
+
+        const key = productKey(brand, name, flavor)
+        const duplicateOf = firstLineByKey.get(key)
+        if (duplicateOf !== undefined) {
+          problems.push(`Produto repetido (mesmo da linha ${duplicateOf})`)
+        } else {
+          firstLineByKey.set(key, line)
+        }
+
+        const product = productsByKey.get(key) ?? null
+        const storeProduct = product ? (storeProductsByProductId.get(product.id) ?? null) : null
+
+        // Produto novo na loja: preços são obrigatórios
+        if (!storeProduct) {
+          if (values.cost_price === undefined)
+            problems.push('Preço de custo obrigatório para produto novo na loja')
+          if (values.sale_price === undefined)
+            problems.push('Preço de venda obrigatório para produto novo na loja')
+        }
+
+        const changes: ImportRowChange[] = []
+        if (storeProduct) {
+          for (const field of NUMERIC_FIELDS) {
+            const to = values[field]
+            if (to === undefined) continue
+            const current = Number(storeProduct[field])
+            const from = Number.isFinite(current) ? current : null
+            if (from === to) continue
+            if (field === 'stock_quantity' && !canAdjustStock.value) {
+              warnings.push('Estoque não será alterado: sem permissão para ajustar estoque')
+              continue
+            }
+            changes.push({
+              field,
+              label: importFields.find(def => def.field === field)!.label,
+              from,
+              to,
+            })
+          }
+        }
+
+        return {
+          line,
+          brand,
+          name,
+          flavor,
+          values,
+          product,
+          storeProduct,
+          changes,
+          problems,
+          warnings,
+        }
+      })
+
+      results.value = {}
+      step.value = 'preview'
+    } catch (err) {
+      error.value = handleApiError(err).message || 'Erro ao carregar o catálogo'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  function errorMessages(err: unknown): string[] {
+    if (err instanceof ValidationError) {
+      const fieldErrors = err.validationErrors || err.errors || {}
+      const messages = Object.entries(fieldErrors).flatMap(([field, fieldMessages]) =>
+        fieldMessages.map(message => `${ERROR_FIELD_LABELS[field] ?? field}: ${message}`)
+      )
+      if (messages.length > 0) return messages
+    }
+    return [handleApiError(err).message || 'Erro ao importar a linha']
+  }
+
+  async function applyRow(id: number, row: ImportRow) {
+    let product = row.product
+    if (!product) {
+      product = await createProduct({ brand: row.brand, name: row.name, flavor: row.flavor })
+      // Reaplicar não cria o produto de novo
+      row.product = product
+    }
+
+    if (!row.storeProduct) {
+      row.storeProduct = await createStoreProduct(id, {
+        product_id: product.id,
+        cost_price: row.values.cost_price ?? 0,
+        sale_price: row.values.sale_price ?? 0,
+        stock_quantity: row.values.stock_quantity ?? 0,
+        min_stock_level: row.values.min_stock_level,
+      })
+      return
+    }
+
+    const data: UpdateStoreProductRequest = {}
+    row.changes.forEach(change => {
+      data[change.field] = change.to
+    })
+    row.storeProduct = await updateStoreProduct(id, row.storeProduct.id, data)
+    row.changes = []
+  }
+
+  /**
+   * Aplica as linhas pendentes, uma a uma; falhas não interrompem as demais
+   */
+  async function apply() {
+    const id = toValue(storeId)
+    if (!id || applying.value) return
+
+    const toApply = pendingRows.value
+    applying.value = true
+    error.value = null
+    results.value = {}
+    progress.value = { done: 0, total: toApply.length }
+
+    for (const row of toApply) {
+      const action = rowAction(row)
+      try {
+        await applyRow(id, row)
+        results.value[row.line] = { action, status: 'success', messages: [] }
+      } catch (err) {
+        results.value[row.line] = { action, status: 'error', messages: errorMessages(err) }
+      }
+      progress.value = { done: progress.value.done + 1, total: toApply.length }
+    }
+
+    applying.value = false
+    step.value = 'result'
+  }
+
+  /**
+   * Volta à prévia: as linhas aplicadas ficam sem pendências, só as que falharam são reenviadas
+   */
+  function backToPreview() {
+    step.value = 'preview'
+  }
+
+  return {
+    // State
+    step,
+    fileName,
+    headers,
+    mapping,
+    createMissingProducts,
+    rows,
+    results,
+    loading,
+    applying,
+    progress,
+    error,
+    // Getters
+    canCreateProducts,
+    canAdjustStock,
+    missingFields,
+    pendingRows,
+    summary,
+    failedCount,
+    // Methods
+    rowAction,
+    reset,
+    loadFile,
+    buildPreview,
+    apply,
+    backToPreview,
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Composable: reajuste de preços de venda do inventário por regra (margem, markup, final)
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * Os produtos da loja são carregados por inteiro e filtrados por marca/nome/sabor; a prévia
+ * mostra preço e margem atuais e novos por linha. Só as linhas que mudam (e não foram
+ * desmarcadas) são enviadas, pelo `useBatchRunner`. As regras podem ser salvas e
+ * reaplicadas em qualquer loja.
+ */
+
+import { ref, computed, watch, toValue, type MaybeRefOrGetter } from 'vue'
+import {
+  createRepricingRule,
+  deleteRepricingRule,
+  getRepricingRules,
+  updateRepricingRule,
+} from '@/api/endpoints/repricingRules'
+import { getStoreProducts, updateStoreProduct } from '@/api/endpoints/storeProducts'
+import type { RepricingMatch, RepricingRule, StoreProduct } from '@/api/types'
+import { useBatchRunner } from '@/composables/useBatchRunner'
+import { useErrorHandler } from '@/composables/useErrorHandler'
+import { fetchAllPages } from '@/composables/usePaginatedList'
+import { storeProductLabel } from '@/composables/useStoreProductBulkActions'
+import { normalizeText } from '@/utils/csv'
+import { marginPercent, priceForRule, type PricingRule } from '@/utils/pricing'
+
+export interface RepricingLine {
+  storeProduct: StoreProduct
+  label: string
+  cost: number
+  oldPrice: number
+  newPrice: number | null
+  oldMargin: number | null
+  newMargin: number | null
+  /** Motivo de não reajustar (ex.: sem preço de custo) */
+  problem: string | null
+  changed: boolean
+}
+
+function emptyMatch(): RepricingMatch {
+  return { brand: '', name: '', flavor: '' }
+}
+
+function matches(storeProduct: StoreProduct, match: RepricingMatch): boolean {
+  const product = storeProduct.product
+  const fields: Array<keyof RepricingMatch> = ['brand', 'name', 'flavor']
+  return fields.every(field => {
+    const wanted = normalizeText(match[field])
+    return !wanted || normalizeText(product?.[field] ?? '').includes(wanted)
+  })
+}
+
+export function useStoreProductRepricing(storeId: MaybeRefOrGetter<number | null>) {
+  const { handleApiError } = useErrorHandler()
+
+  // State
+  const storeProducts = ref<StoreProduct[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+  const match = ref<RepricingMatch>(emptyMatch())
+  const rule = ref<PricingRule>({ method: 'margin', percent: null, ending: null })
+  /** Linhas desmarcadas na prévia (id do store product) */
+  const excluded = ref(new Set<number>())
+
+  // Regras salvas
+  const rules = ref<RepricingRule[]>([])
+  const rulesLoading = ref(false)
+  const savingRule = ref(false)
+  const activeRuleId = ref<number | null>(null)
+
+  const runner = useBatchRunner<RepricingLine>({
+    onFinish: result => {
+      if (result.succeeded > 0) load()
+    },
+  })
+
+  /** Regra incompleta (nada a calcular) */
+  const ruleProblem = computed(() => {
+    const { method, percent, ending } = rule.value
+    if (method === 'round') return ending ? null : 'Escolha o final do preço'
+    if (percent === null || !Number.isFinite(percent)) return 'Informe o percentual'
+    if (method === 'margin' && (percent < 0 || percent >= 100)) {
+      return 'A margem deve estar entre 0% e 100%'
+    }
+    return null
+  })
+
+  const lines = computed<RepricingLine[]>(() =>
+    storeProducts.value
+      .filter(storeProduct => matches(storeProduct, match.value))
+      .map(storeProduct => {
+        const cost = parseFloat(storeProduct.cost_price) || 0
+        const oldPrice = parseFloat(storeProduct.sale_price) || 0
+        const result = ruleProblem.value
+          ? { price: null, problem: null }
+          : priceForRule(cost, oldPrice, rule.value)
+        return {
+          storeProduct,
+          label: storeProductLabel(storeProduct),
+          cost,
+          oldPrice,
+          newPrice: result.price,
+          oldMargin: marginPercent(cost, oldPrice),
+          newMargin: result.price === null ? null : marginPercent(cost, result.price),
+          problem: result.problem,
+          changed: result.price !== null && result.price !== oldPrice,
+        }
+      })
+  )
+
+  /** Linhas que serão enviadas */
+  const pendingLines = computed(() =>
+    lines.value.filter(line => line.changed && !excluded.value.has(line.storeProduct.id))
+  )
+
+  const summary = computed(() => ({
+    matched: lines.value.length,
+    changed: lines.value.filter(line => line.changed).length,
+    problems: lines.value.filter(line => line.problem).length,
+    pending: pendingLines.value.length,
+  }))
+
+  /**
+   * Carrega todos os produtos da loja (a prévia é calculada localmente)
+   */
+  async function load() {
+    const id = Number(toValue(storeId))
+    if (!id) {
+      storeProducts.value = []
+      return
+    }
+
+    loading.value = true
+    error.value = null
+    try {
+      storeProducts.value = await fetchAllPages(params => getStoreProducts(id, params))
+    } catch (err) {
+      storeProducts.value = []
+      error.value = handleApiError(err).message || 'Erro ao carregar inventário'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  function isIncluded(line: RepricingLine): boolean {
+    return !excluded.value.has(line.storeProduct.id)
+  }
+
+  function toggleLine(line: RepricingLine) {
+    const id = line.storeProduct.id
+    if (excluded.value.has(id)) excluded.value.delete(id)
+    else excluded.value.add(id)
+  }
+
+  /**
+   * Aplica o novo preço de venda às linhas pendentes
+   */
+  function apply() {
+    const id = Number(toValue(storeId))
+    if (!id || ruleProblem.value) return Promise.resolve(null)
+    return runner.run('Reajustar preços', pendingLines.value, line =>
+      updateStoreProduct(id, line.storeProduct.id, { sale_price: line.newPrice ?? undefined })
+    )
+  }
+
+  // ---------------------------------------------------------------------------
+  // Regras salvas
+  // ---------------------------------------------------------------------------
+
+  async function loadRules() {
+    rulesLoading.value = true
+    try {
+      rules.value = await getRepricingRules()
+    } catch (err) {
+      error.value = handleApiError(err).message || 'Erro ao carregar regras'
+    } finally {
+      rulesLoading.value = false
+    }
+  }
+
+  /**
+   * Usa uma regra salva (filtros e cálculo)
+   */
+  function applyRule(saved: RepricingRule) {
+    activeRuleId.value = saved.id
+    match.value = { ...saved.match }
+    rule.value = { method: saved.method, percent: saved.percent, ending: saved.ending }
+    excluded.value.clear()
+  }
+
+  /**
+   * Salva a regra atual (nova, ou sobrescreve `id`)
+   */
+  async function saveRule(name: string, id?: number): Promise<RepricingRule | null> {
+    if (ruleProblem.value) return null
+    savingRule.value = true
+    error.value = null
+    try {
+      const data = { name: name.trim(), ...rule.value, match: { ...match.value } }
+      const saved = id ? await updateRepricingRule(id, data) : await createRepricingRule(data)
+      rules.value = [...rules.value.filter(entry => entry.id !== saved.id), saved]
+      activeRuleId.value = saved.id
+      return saved
+    } catch (err) {
+      error.value = handleApiError(err).message || 'Erro ao salvar regra'
+      return null
+    } finally {
+      savingRule.value = false
+    }
+  }
+
+  async function removeRule(saved: RepricingRule) {
+    error.value = null
+    try {
+      await deleteRepricingRule(saved.id)
+      rules.value = rules.value.filter(entry => entry.id !== saved.id)
+      if (activeRuleId.value === saved.id) activeRuleId.value = null
+    } catch (err) {
+      error.value = handleApiError(err).message || 'Erro ao remover regra'
+    }
+  }
+
+  // Filtros ou cálculo mudaram: as linhas desmarcadas deixam de valer
+  watch([match, rule], () => excluded.value.clear(), { deep: true })
+
+  // Trocar de loja recarrega os produtos (as regras valem para todas)
+  watch(
+    () => toValue(storeId),
+    (newId, oldId) => {
+      if (newId !== oldId) {
+        runner.dismiss()
+        load()
+      }
+    }
+  )
+
+  return {
+    storeProducts,
+    loading,
+    error,
+    match,
+    rule,
+    ruleProblem,
+    lines,
+    pendingLines,
+    summary,
+    runner,
+    rules,
+    rulesLoading,
+    savingRule,
+    activeRuleId,
+    load,
+    isIncluded,
+    toggleLine,
+    apply,
+    loadRules,
+    applyRule,
+    saveRule,
+    removeRule,
+  }
+}
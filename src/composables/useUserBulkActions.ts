@@ -0,0 +1,66 @@
+/**
+ * Composable para ações em massa na lista de usuários
+ * Seguindo Frontend.md: encapsula lógica reutilizável, sem template
+ *
+ * Ativar/desativar e excluir os usuários selecionados (ou todos do filtro),
+ * executados pelo `useBatchRunner`.
+ */
+
+import { deleteUser, updateUser } from '@/api/endpoints/users'
+import { ApiError, type User } from '@/api/types'
+import { useBatchRunner, type BatchResult } from '@/composables/useBatchRunner'
+import { useListSelection, type SelectableList } from '@/composables/useListSelection'
+import { useAuthStore } from '@/stores/auth'
+
+export interface UserBulkActionsOptions {
+  /** Após cada execução (ex.: recarregar a lista) */
+  onFinish?: (result: BatchResult) => void
+}
+
+export function useUserBulkActions(
+  list: SelectableList<User>,
+  options: UserBulkActionsOptions = {}
+) {
+  const authStore = useAuthStore()
+  const selection = useListSelection(list)
+  const runner = useBatchRunner<User>({
+    onFinish: result => {
+      selection.clear()
+      options.onFinish?.(result)
+    },
+  })
+
+  function run(label: string, task: (user: User) => Promise<unknown>) {
+    return runner.run(label, signal => selection.resolveItems(signal), task)
+  }
+
+  function setActive(isActive: boolean) {
+    return run(isActive ? 'Ativar' : 'Desativar', async user => {
+      if (!isActive && user.id === authStore.user?.id) {
+        throw new Error('Você não pode desativar sua própria conta.')
+      }
+      await updateUser(user.id, { is_active: isActive })
+    })
+  }
+
+  function remove() {
+    return run('Excluir', async user => {
+      try {
+        await deleteUser(user.id)
+      } catch (err) {
+        // 403: não pode deletar o próprio usuário
+        if (err instanceof ApiError && err.status === 403 && user.id === authStore.user?.id) {
+          throw new Error('Você não pode deletar sua própria conta.')
+        }
+        throw err
+      }
+    })
+  }
+
+  return {
+    selection,
+    runner,
+    setActive,
+    remove,
+  }
+}
@@ -3,13 +3,27 @@ import { createPinia } from 'pinia'
 import App from './App.vue'
 import router from './router'
 import { useAuthStore } from './stores/auth'
+import { vCan } from './permissions/directive'
+import {
+  authHeaderInterceptor,
+  registerInterceptor,
+  unauthorizedInterceptor,
+  unwrapDataInterceptor,
+} from './api/interceptors'
 import './assets/styles/global.css'
 
+// Interceptors do cliente HTTP (executados na ordem de registro)
+// Novos interceptors (logs, correlation id, headers de locale/loja) entram aqui
+registerInterceptor(authHeaderInterceptor)
+registerInterceptor(unwrapDataInterceptor)
+registerInterceptor(unauthorizedInterceptor)
+
 const app = createApp(App)
 const pinia = createPinia()
 
 app.use(pinia)
 app.use(router)
+app.directive('can', vCan)
 
 // Bootstrap: verificar se há token e buscar usuário
 const authStore = useAuthStore()
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import type { RoleDefinition, User } from '@/api/types'
+import { getRoleLabel, userCan, userMemberships } from '@/permissions'
+import { useRolesStore } from '@/stores/roles'
+
+// A store real importa o router, que exige `window`
+vi.mock('@/stores/auth', () => ({ useAuthStore: () => ({ user: null }) }))
+
+type Subject = Pick<User, 'role' | 'store_id' | 'store' | 'memberships'>
+
+function subject(role: string, storeId: number | null, memberships: Subject['memberships'] = []) {
+  return { role, store_id: storeId, store: null, memberships }
+}
+
+const cashier: RoleDefinition = {
+  id: 4,
+  name: 'cashier',
+  label: 'Caixa',
+  requires_store: true,
+  is_system: false,
+  permissions: { 'sale.view': 'own-store', 'customer.view': 'all' },
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+}
+
+describe('userCan', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('escopo all vale em qualquer loja', () => {
+    const admin = subject('admin', null)
+    expect(userCan(admin, 'user.delete')).toBe(true)
+    expect(userCan(admin, 'sale.view', { storeId: 9 })).toBe(true)
+  })
+
+  it('own-store vale só nas lojas do usuário; sem loja no contexto, basta alguma', () => {
+    const manager = subject('manager', 2)
+    expect(userCan(manager, 'sale.view', { storeId: 2 })).toBe(true)
+    expect(userCan(manager, 'sale.view', { storeId: 3 })).toBe(false)
+    expect(userCan(manager, 'sale.view')).toBe(true)
+    expect(userCan(manager, 'user.delete')).toBe(false)
+  })
+
+  it('em cada loja vale o role do vínculo', () => {
+    const manager = subject('manager', 2, [{ store: { id: 5, name: 'Centro' }, role: 'seller' }])
+    expect(userCan(manager, 'promotion.manage', { storeId: 2 })).toBe(true)
+    expect(userCan(manager, 'promotion.manage', { storeId: 5 })).toBe(false)
+    expect(userCan(manager, 'sale.create', { storeId: 5 })).toBe(true)
+  })
+
+  it('nega sem usuário ou com role desconhecido', () => {
+    expect(userCan(null, 'customer.view')).toBe(false)
+    expect(userCan(subject('auditor', 2), 'customer.view', { storeId: 2 })).toBe(false)
+  })
+
+  it('usa as definições dos roles próprios do usuário', () => {
+    useRolesStore().setOwnRoles([cashier])
+    const user = subject('cashier', 2)
+    expect(userCan(user, 'sale.view', { storeId: 2 })).toBe(true)
+    expect(userCan(user, 'sale.create', { storeId: 2 })).toBe(false)
+    expect(getRoleLabel('cashier')).toBe('Caixa')
+    expect(getRoleLabel('auditor')).toBe('auditor')
+  })
+})
+
+describe('userMemberships', () => {
+  it('inclui a loja principal quando o backend não a repete', () => {
+    const user = subject('manager', 2, [{ store: { id: 5, name: 'Centro' }, role: 'seller' }])
+    expect(userMemberships(user)).toEqual([
+      { store: { id: 2, name: 'Loja #2' }, role: 'manager' },
+      { store: { id: 5, name: 'Centro' }, role: 'seller' },
+    ])
+    expect(userMemberships(subject('manager', 5, user.memberships))).toHaveLength(1)
+  })
+})
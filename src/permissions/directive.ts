@@ -0,0 +1,46 @@
+/**
+ * Diretiva `v-can`: esconde o elemento quando o usuário não tem a permissão
+ * Uso: `v-can="'product.create'"` ou `v-can="['store-product.update', { storeId }]"`
+ * Reage à troca de usuário (login, troca rápida, impersonação) sem re-renderizar o componente.
+ */
+
+import { shallowRef, watchEffect, type Directive, type ShallowRef, type WatchStopHandle } from 'vue'
+import { can, type Permission, type PermissionContext } from './index'
+
+export type CanBinding = Permission | [Permission, PermissionContext?]
+
+interface CanState {
+  binding: ShallowRef<CanBinding>
+  stop: WatchStopHandle
+}
+
+const states = new WeakMap<HTMLElement, CanState>()
+
+function isAllowed(binding: CanBinding): boolean {
+  return Array.isArray(binding) ? can(binding[0], binding[1]) : can(binding)
+}
+
+export const vCan: Directive<HTMLElement, CanBinding> = {
+  mounted(el, { value }) {
+    const binding = shallowRef(value)
+    const originalDisplay = el.style.display
+    const stop = watchEffect(() => {
+      el.style.display = isAllowed(binding.value) ? originalDisplay : 'none'
+    })
+    states.set(el, { binding, stop })
+  },
+  updated(el, { value }) {
+    const state = states.get(el)
+    if (state) state.binding.value = value
+  },
+  beforeUnmount(el) {
+    states.get(el)?.stop()
+    states.delete(el)
+  },
+}
+
+declare module 'vue' {
+  interface GlobalDirectives {
+    vCan: typeof vCan
+  }
+}
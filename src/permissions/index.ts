@@ -0,0 +1,95 @@
+/**
+ * Verificação de permissões
+ * `can('store-product.update', { storeId })` responde pelo usuário autenticado;
+ * `userCan(user, ...)` responde por um usuário qualquer (ex.: guard, testes manuais).
+ */
+
+import type { StoreMembership, User } from '@/api/types'
+import { useAuthStore } from '@/stores/auth'
+import { useRolesStore } from '@/stores/roles'
+import type { Permission, PermissionScope } from './policy'
+
+export { PERMISSIONS, builtInRoles, permissionGroups, permissionLabels } from './policy'
+export type { Permission, PermissionGrants, PermissionScope, Role, RolePolicy } from './policy'
+
+export interface PermissionContext {
+  /** Loja do recurso; sem ela, a verificação ignora o escopo (ex.: exibir um link) */
+  storeId?: number | null
+}
+
+/**
+ * Escopo da permissão para o role, ou null se o role não a possui (ou é desconhecido)
+ */
+export function permissionScope(role: string, permission: Permission): PermissionScope | null {
+  return useRolesStore().getPolicy(role)?.permissions[permission] ?? null
+}
+
+type PermissionSubject = Pick<User, 'role' | 'store_id' | 'store' | 'memberships'>
+
+/**
+ * Lojas do usuário, cada uma com o role que vale nela
+ * A loja principal (`store_id` + `role`) entra na lista mesmo que o backend não a repita.
+ */
+export function userMemberships(
+  user: Partial<PermissionSubject> | null | undefined
+): StoreMembership[] {
+  if (!user) return []
+  const memberships = [...(user.memberships ?? [])]
+  const primaryId = user.store_id
+  if (
+    typeof primaryId === 'number' &&
+    user.role &&
+    !memberships.some(membership => membership.store.id === primaryId)
+  ) {
+    memberships.unshift({
+      store: { id: primaryId, name: user.store?.name ?? `Loja #${primaryId}` },
+      role: user.role,
+    })
+  }
+  return memberships
+}
+
+export function userCan(
+  user: PermissionSubject | null | undefined,
+  permission: Permission,
+  context: PermissionContext = {}
+): boolean {
+  if (!user) return false
+
+  // Escopo `all` em qualquer role do usuário vale para todas as lojas
+  const memberships = userMemberships(user)
+  const roles = [user.role, ...memberships.map(membership => membership.role)]
+  if (roles.some(role => permissionScope(role, permission) === 'all')) return true
+
+  // own-store: sem loja no contexto, basta o permitido em alguma das lojas do usuário
+  return memberships.some(
+    membership =>
+      (context.storeId == null || membership.store.id === context.storeId) &&
+      permissionScope(membership.role, permission) !== null
+  )
+}
+
+/**
+ * Verifica a permissão para o usuário autenticado
+ */
+export function can(permission: Permission, context: PermissionContext = {}): boolean {
+  return userCan(useAuthStore().user, permission, context)
+}
+
+/**
+ * A permissão vale para todas as lojas (escopo `all`), inclusive para recursos sem loja
+ */
+export function canInAllStores(permission: Permission): boolean {
+  const user = useAuthStore().user
+  if (!user) return false
+  const roles = [user.role, ...userMemberships(user).map(membership => membership.role)]
+  return roles.some(role => permissionScope(role, permission) === 'all')
+}
+
+export function getRoleLabel(role: string): string {
+  return useRolesStore().getPolicy(role)?.label ?? role
+}
+
+export function roleRequiresStore(role: string): boolean {
+  return useRolesStore().getPolicy(role)?.requiresStore ?? false
+}
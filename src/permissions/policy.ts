@@ -0,0 +1,246 @@
+/**
+ * Catálogo de permissões e roles padrão
+ * - Cada role lista as permissões que possui e o escopo de cada uma
+ * - `all`: qualquer loja; `own-store`: apenas as lojas do usuário (`userMemberships`)
+ * Os roles vêm do backend (`GET /roles`, editáveis em /roles); `builtInRoles` só é usado
+ * até a lista carregar ou se o backend não a fornecer.
+ */
+
+export const PERMISSIONS = [
+  // Lojas
+  'store.view',
+  'store.create',
+  'store.update',
+  'store.delete',
+  /** Trocar a loja de trabalho no seletor (demais roles ficam na própria loja) */
+  'store.switch',
+  // Catálogo de produtos
+  'product.view',
+  'product.create',
+  'product.update',
+  'product.delete',
+  // Produtos da loja (inventário)
+  'store-product.view',
+  'store-product.create',
+  'store-product.update',
+  'store-product.adjust-stock',
+  // Estoque pessoal do vendedor
+  'seller-dashboard.view',
+  'seller-stock.view',
+  'seller-stock.update',
+  'seller-stock.withdraw',
+  /** Vendas saem do estoque pessoal (seller_quantity) em vez do estoque da loja */
+  'sale.use-seller-stock',
+  // Gestão do estoque dos vendedores
+  'seller-inventory.manage',
+  // Clientes
+  'customer.view',
+  'customer.create',
+  'customer.update',
+  // Vendas
+  'sale.view',
+  'sale.create',
+  /** Dar desconto manual no item ou no carrinho (promoções valem para todos) */
+  'sale.discount',
+  // Promoções
+  'promotion.manage',
+  // Caixa
+  /** Abrir, movimentar e fechar o próprio turno de caixa */
+  'shift.operate',
+  /** Ver e conferir os turnos de todos (histórico) */
+  'shift.manage',
+  // Usuários
+  'user.view',
+  'user.create',
+  'user.update',
+  'user.delete',
+  'user.impersonate',
+  // Roles
+  'role.manage',
+  // Visualizações salvas (as pessoais não precisam de permissão)
+  'saved-view.share',
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+export type PermissionScope = 'all' | 'own-store'
+
+/** Permissões de um role e o escopo de cada uma (ausente = sem acesso) */
+export type PermissionGrants = Partial<Record<Permission, PermissionScope>>
+
+/**
+ * Rótulos exibidos no editor de roles
+ */
+export const permissionLabels: Record<Permission, string> = {
+  'store.view': 'Ver lojas',
+  'store.create': 'Criar lojas',
+  'store.update': 'Editar lojas',
+  'store.delete': 'Excluir lojas',
+  'store.switch': 'Trocar de loja',
+  'product.view': 'Ver produtos',
+  'product.create': 'Criar produtos',
+  'product.update': 'Editar produtos',
+  'product.delete': 'Excluir produtos',
+  'store-product.view': 'Ver inventário',
+  'store-product.create': 'Adicionar produtos à loja',
+  'store-product.update': 'Editar produtos da loja',
+  'store-product.adjust-stock': 'Ajustar estoque da loja',
+  'seller-dashboard.view': 'Dashboard do vendedor',
+  'seller-stock.view': 'Ver estoque pessoal',
+  'seller-stock.update': 'Editar estoque pessoal',
+  'seller-stock.withdraw': 'Retirar produtos do estoque da loja',
+  'sale.use-seller-stock': 'Vender do estoque pessoal',
+  'seller-inventory.manage': 'Gerenciar estoque dos vendedores',
+  'customer.view': 'Ver clientes',
+  'customer.create': 'Criar clientes',
+  'customer.update': 'Editar clientes',
+  'sale.view': 'Ver vendas',
+  'sale.create': 'Registrar vendas',
+  'sale.discount': 'Dar descontos nas vendas',
+  'promotion.manage': 'Gerenciar promoções',
+  'shift.operate': 'Operar o próprio caixa',
+  'shift.manage': 'Ver caixas de todos os vendedores',
+  'user.view': 'Ver usuários',
+  'user.create': 'Criar usuários',
+  'user.update': 'Editar usuários',
+  'user.delete': 'Excluir usuários',
+  'user.impersonate': 'Ver como outro usuário',
+  'role.manage': 'Gerenciar roles',
+  'saved-view.share': 'Compartilhar visualizações com a loja',
+}
+
+export const permissionGroups: Array<{ label: string; permissions: Permission[] }> = [
+  {
+    label: 'Lojas',
+    permissions: ['store.view', 'store.create', 'store.update', 'store.delete', 'store.switch'],
+  },
+  {
+    label: 'Catálogo de produtos',
+    permissions: ['product.view', 'product.create', 'product.update', 'product.delete'],
+  },
+  {
+    label: 'Inventário da loja',
+    permissions: [
+      'store-product.view',
+      'store-product.create',
+      'store-product.update',
+      'store-product.adjust-stock',
+    ],
+  },
+  {
+    label: 'Estoque pessoal',
+    permissions: [
+      'seller-dashboard.view',
+      'seller-stock.view',
+      'seller-stock.update',
+      'seller-stock.withdraw',
+      'seller-inventory.manage',
+    ],
+  },
+  { label: 'Clientes', permissions: ['customer.view', 'customer.create', 'customer.update'] },
+  {
+    label: 'Vendas',
+    permissions: ['sale.view', 'sale.create', 'sale.discount', 'sale.use-seller-stock'],
+  },
+  { label: 'Promoções', permissions: ['promotion.manage'] },
+  { label: 'Caixa', permissions: ['shift.operate', 'shift.manage'] },
+  {
+    label: 'Usuários',
+    permissions: ['user.view', 'user.create', 'user.update', 'user.delete', 'user.impersonate'],
+  },
+  { label: 'Roles', permissions: ['role.manage'] },
+  { label: 'Visualizações salvas', permissions: ['saved-view.share'] },
+]
+
+export interface RolePolicy {
+  /** Nome exibido na interface */
+  label: string
+  /** Usuários do role pertencem a uma loja (store_id obrigatório no cadastro) */
+  requiresStore: boolean
+  permissions: PermissionGrants
+}
+
+/**
+ * Nome (slug) de um role. É aberto: o backend pode definir roles que o front não conhece.
+ */
+export type Role = string
+
+export const builtInRoles: Record<Role, RolePolicy> = {
+  admin: {
+    label: 'Administrador',
+    requiresStore: false,
+    permissions: {
+      'store.view': 'all',
+      'store.create': 'all',
+      'store.update': 'all',
+      'store.delete': 'all',
+      'store.switch': 'all',
+      'product.view': 'all',
+      'product.create': 'all',
+      'product.update': 'all',
+      'product.delete': 'all',
+      'store-product.view': 'all',
+      'store-product.create': 'all',
+      'store-product.update': 'all',
+      'store-product.adjust-stock': 'all',
+      'seller-inventory.manage': 'all',
+      'customer.view': 'all',
+      'customer.create': 'all',
+      'customer.update': 'all',
+      'sale.view': 'all',
+      'sale.create': 'all',
+      'sale.discount': 'all',
+      'promotion.manage': 'all',
+      'shift.operate': 'all',
+      'shift.manage': 'all',
+      'user.view': 'all',
+      'user.create': 'all',
+      'user.update': 'all',
+      'user.delete': 'all',
+      'user.impersonate': 'all',
+      'role.manage': 'all',
+      'saved-view.share': 'all',
+    },
+  },
+  manager: {
+    label: 'Gerente',
+    requiresStore: true,
+    permissions: {
+      'product.view': 'all',
+      'store-product.view': 'own-store',
+      'store-product.create': 'own-store',
+      'store-product.update': 'own-store',
+      'store-product.adjust-stock': 'own-store',
+      'seller-inventory.manage': 'own-store',
+      'customer.view': 'all',
+      'customer.create': 'all',
+      'customer.update': 'all',
+      'sale.view': 'own-store',
+      'sale.create': 'own-store',
+      'sale.discount': 'own-store',
+      'promotion.manage': 'own-store',
+      'shift.operate': 'own-store',
+      'shift.manage': 'own-store',
+      'user.view': 'all',
+      'saved-view.share': 'own-store',
+    },
+  },
+  seller: {
+    label: 'Vendedor',
+    requiresStore: true,
+    permissions: {
+      'store-product.view': 'own-store',
+      'seller-dashboard.view': 'own-store',
+      'seller-stock.view': 'own-store',
+      'seller-stock.update': 'own-store',
+      'seller-stock.withdraw': 'own-store',
+      'sale.use-seller-stock': 'own-store',
+      'customer.view': 'all',
+      'customer.create': 'all',
+      'sale.view': 'own-store',
+      'sale.create': 'own-store',
+      'sale.discount': 'own-store',
+      'shift.operate': 'own-store',
+    },
+  },
+}
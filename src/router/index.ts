@@ -1,5 +1,17 @@
-import { createRouter, createWebHistory } from 'vue-router'
+import { createRouter, createWebHistory, type RouteLocationRaw } from 'vue-router'
 import { useAuthStore } from '@/stores/auth'
+import { useRolesStore } from '@/stores/roles'
+import { can, type Permission } from '@/permissions'
+import { safeRedirectPath } from '@/utils/redirect'
+
+declare module 'vue-router' {
+  interface RouteMeta {
+    layout?: 'auth' | 'default'
+    requiresAuth?: boolean
+    /** Permissão exigida (ver `permissions/policy.ts`); com :storeId, vale o escopo da loja */
+    permission?: Permission
+  }
+}
 
 const router = createRouter({
   history: createWebHistory(import.meta.env.BASE_URL),
@@ -29,8 +41,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['seller'],
-        storeContext: true,
+        permission: 'seller-dashboard.view',
       },
     },
     {
@@ -40,7 +51,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin'],
+        permission: 'store.view',
       },
     },
     {
@@ -50,7 +61,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin'],
+        permission: 'store.create',
       },
     },
     {
@@ -60,7 +71,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin'],
+        permission: 'store.view',
       },
     },
     {
@@ -70,7 +81,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin'],
+        permission: 'store.update',
       },
     },
     {
@@ -80,7 +91,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin', 'manager'],
+        permission: 'product.view',
       },
     },
     {
@@ -90,7 +101,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin'],
+        permission: 'product.create',
       },
     },
     {
@@ -100,7 +111,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin', 'manager'],
+        permission: 'product.view',
       },
     },
     {
@@ -110,7 +121,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin'],
+        permission: 'product.update',
       },
     },
     {
@@ -120,7 +131,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        storeContext: true,
+        permission: 'store-product.view',
       },
     },
     {
@@ -130,8 +141,27 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin', 'manager'],
-        storeContext: true,
+        permission: 'store-product.create',
+      },
+    },
+    {
+      path: '/stores/:storeId/products/import',
+      name: 'store-products-import',
+      component: () => import('@/views/StoreProductImportView.vue'),
+      meta: {
+        layout: 'default',
+        requiresAuth: true,
+        permission: 'store-product.create',
+      },
+    },
+    {
+      path: '/stores/:storeId/products/reprice',
+      name: 'store-products-reprice',
+      component: () => import('@/views/StoreProductRepricingView.vue'),
+      meta: {
+        layout: 'default',
+        requiresAuth: true,
+        permission: 'store-product.update',
       },
     },
     {
@@ -141,8 +171,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin', 'manager'],
-        storeContext: true,
+        permission: 'store-product.update',
       },
     },
     {
@@ -152,8 +181,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin', 'manager'],
-        storeContext: true,
+        permission: 'store-product.adjust-stock',
       },
     },
     {
@@ -163,6 +191,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
+        permission: 'customer.view',
       },
     },
     {
@@ -172,6 +201,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
+        permission: 'customer.create',
       },
     },
     {
@@ -181,6 +211,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
+        permission: 'customer.view',
       },
     },
     {
@@ -190,6 +221,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
+        permission: 'customer.update',
       },
     },
     {
@@ -199,7 +231,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        storeContext: true,
+        permission: 'sale.view',
       },
     },
     {
@@ -209,7 +241,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        storeContext: true,
+        permission: 'sale.create',
       },
     },
     {
@@ -219,7 +251,47 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        storeContext: true,
+        permission: 'sale.view',
+      },
+    },
+    {
+      path: '/stores/:storeId/promotions',
+      name: 'promotions',
+      component: () => import('@/views/PromotionsView.vue'),
+      meta: {
+        layout: 'default',
+        requiresAuth: true,
+        permission: 'promotion.manage',
+      },
+    },
+    {
+      path: '/stores/:storeId/shift',
+      name: 'shift',
+      component: () => import('@/views/ShiftView.vue'),
+      meta: {
+        layout: 'default',
+        requiresAuth: true,
+        permission: 'shift.operate',
+      },
+    },
+    {
+      path: '/stores/:storeId/shifts',
+      name: 'shifts',
+      component: () => import('@/views/ShiftsHistoryView.vue'),
+      meta: {
+        layout: 'default',
+        requiresAuth: true,
+        permission: 'shift.manage',
+      },
+    },
+    {
+      path: '/stores/:storeId/shifts/:id',
+      name: 'shift-detail',
+      component: () => import('@/views/ShiftDetailView.vue'),
+      meta: {
+        layout: 'default',
+        requiresAuth: true,
+        permission: 'shift.operate',
       },
     },
     {
@@ -229,7 +301,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin', 'manager'],
+        permission: 'user.view',
       },
     },
     {
@@ -239,7 +311,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin'],
+        permission: 'user.create',
       },
     },
     {
@@ -249,7 +321,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin', 'manager'],
+        permission: 'user.view',
       },
     },
     {
@@ -259,7 +331,17 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin'],
+        permission: 'user.update',
+      },
+    },
+    {
+      path: '/roles',
+      name: 'roles',
+      component: () => import('@/views/RolesView.vue'),
+      meta: {
+        layout: 'default',
+        requiresAuth: true,
+        permission: 'role.manage',
       },
     },
     {
@@ -278,8 +360,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['seller'],
-        storeContext: true,
+        permission: 'seller-stock.view',
       },
     },
     {
@@ -289,8 +370,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['seller'],
-        storeContext: true,
+        permission: 'seller-stock.update',
       },
     },
     {
@@ -300,8 +380,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['seller'],
-        storeContext: true,
+        permission: 'seller-stock.update',
       },
     },
     {
@@ -311,8 +390,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['seller'],
-        storeContext: true,
+        permission: 'seller-stock.withdraw',
       },
     },
     {
@@ -322,7 +400,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin', 'manager'],
+        permission: 'seller-inventory.manage',
       },
     },
     {
@@ -332,7 +410,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin', 'manager'],
+        permission: 'seller-inventory.manage',
       },
     },
     {
@@ -342,7 +420,7 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin', 'manager'],
+        permission: 'seller-inventory.manage',
       },
     },
     {
@@ -352,12 +430,19 @@ const router = createRouter({
       meta: {
         layout: 'default',
         requiresAuth: true,
-        roles: ['admin', 'manager'],
+        permission: 'seller-inventory.manage',
       },
     },
   ],
 })
 
+/**
+ * Destino quando o usuário não tem permissão para a rota pedida
+ */
+function fallbackRoute(): RouteLocationRaw {
+  return can('seller-dashboard.view') ? { name: 'seller-dashboard' } : { name: 'home' }
+}
+
 // Guard global
 router.beforeEach(async (to, from, next) => {
   const authStore = useAuthStore()
@@ -375,58 +460,31 @@ router.beforeEach(async (to, from, next) => {
       try {
         await authStore.fetchUser()
       } catch {
-        // Se falhar, redirecionar para login
-        next({ name: 'login' })
+        // Se falhar, redirecionar para login (voltando para cá depois)
+        next({ name: 'login', query: { redirect: to.fullPath } })
         return
       }
     }
 
-    // Verificar role se necessário
-    if (to.meta.roles && Array.isArray(to.meta.roles)) {
-      const userRole = authStore.user?.role
-      if (!userRole || !to.meta.roles.includes(userRole)) {
-        // Usuário não tem permissão - redirecionar para home ou dashboard do seller
-        if (userRole === 'seller') {
-          const userStoreId = authStore.user?.store_id
-          if (userStoreId) {
-            next({ name: 'seller-dashboard' })
-          } else {
-            next({ name: 'home' })
-          }
-        } else {
-          next({ name: 'home' })
-        }
-        return
-      }
+    // Permissões dependem das definições de roles do backend (carregadas uma vez)
+    const rolesStore = useRolesStore()
+    if (!rolesStore.loaded) {
+      await rolesStore.loadRoles()
     }
 
-    // Redirecionar sellers da home para dashboard
-    if (to.name === 'home' && authStore.user?.role === 'seller') {
-      const userStoreId = authStore.user?.store_id
-      if (userStoreId) {
-        next({ name: 'seller-dashboard' })
+    // Verificar permissão da rota (com escopo de loja quando a rota tem :storeId)
+    if (to.meta.permission) {
+      const storeId = to.params.storeId ? Number(to.params.storeId) : undefined
+      if (!can(to.meta.permission, { storeId })) {
+        next(fallbackRoute())
         return
       }
     }
 
-    // Verificar store context se necessário
-    if (to.meta.storeContext && to.params.storeId) {
-      const storeId = Number(to.params.storeId)
-      const userRole = authStore.user?.role
-      const userStoreId = authStore.user?.store_id
-
-      // Admin pode acessar qualquer loja
-      // Manager/Seller só pode acessar sua própria loja
-      if (userRole !== 'admin' && userStoreId !== storeId) {
-        // Usuário não tem permissão para acessar esta loja
-        // Redirecionar sellers para dashboard, outros para home
-        if (userRole === 'seller') {
-          next({ name: 'seller-dashboard' })
-        } else {
-          next({ name: 'home' })
-        }
-        return
-      }
+    // Quem tem dashboard próprio (sellers) não usa a home
+    if (to.name === 'home' && can('seller-dashboard.view')) {
+      next({ name: 'seller-dashboard' })
+      return
     }
 
     // Autenticado e autorizado, permitir acesso
@@ -437,8 +495,7 @@ router.beforeEach(async (to, from, next) => {
   // Se está tentando acessar /login e já está autenticado
   if (to.name === 'login' && authStore.isAuthenticated) {
     // Redirecionar para home ou para a rota de redirect se existir
-    const redirect = (from.query.redirect as string) || '/'
-    next(redirect)
+    next(safeRedirectPath(from.query.redirect))
     return
   }
 
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import type { RoleDefinition } from '@/api/types'
+import { builtInRoles } from '@/permissions/policy'
+import { useRolesStore } from '@/stores/roles'
+import { mockFetch, useDefaultInterceptors } from '@/api/__tests__/http'
+
+const cashier: RoleDefinition = {
+  id: 4,
+  name: 'cashier',
+  label: 'Caixa',
+  requires_store: true,
+  is_system: false,
+  permissions: { 'sale.view': 'own-store' },
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+}
+
+describe('roles store', () => {
+  let cleanup: () => void
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    cleanup = useDefaultInterceptors()
+  })
+  afterEach(() => cleanup())
+
+  it('usa a lista completa de /roles depois de carregada', async () => {
+    mockFetch({ body: { data: [cashier] } })
+    const store = useRolesStore()
+    await store.loadRoles()
+    expect(store.loaded).toBe(true)
+    expect(Object.keys(store.policies)).toEqual(['cashier'])
+    expect(store.getPolicy('cashier')?.label).toBe('Caixa')
+  })
+
+  it('sem acesso a /roles (403), soma os padrões aos roles do próprio usuário', async () => {
+    mockFetch({ status: 403, body: { message: 'Forbidden' } })
+    const store = useRolesStore()
+    store.setOwnRoles([cashier])
+    await store.loadRoles()
+    expect(store.error).toBeNull()
+    expect(store.policies).toMatchObject(builtInRoles)
+    expect(store.getPolicy('cashier')?.permissions).toEqual({ 'sale.view': 'own-store' })
+  })
+
+  it('reset esquece a lista e descarta o carregamento em andamento', async () => {
+    mockFetch({ body: { data: [cashier] } })
+    const store = useRolesStore()
+    const loading = store.loadRoles()
+    store.reset()
+    await loading
+    expect(store.loaded).toBe(false)
+    expect(store.loading).toBe(false)
+    expect(store.roles).toEqual([])
+    expect(store.policies).toEqual(builtInRoles)
+  })
+})
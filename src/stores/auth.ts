@@ -3,23 +3,102 @@
  */
 
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
-import { login as loginApi, logout as logoutApi, me } from '@/api/endpoints/auth'
-import type { User } from '@/api/types'
+import { ref, computed, watch } from 'vue'
+import {
+  impersonateUser as impersonateUserApi,
+  login as loginApi,
+  logout as logoutApi,
+  me,
+  refreshToken as refreshTokenApi,
+  setPin as setPinApi,
+  stopImpersonation as stopImpersonationApi,
+  switchUser as switchUserApi,
+  unlock as unlockApi,
+} from '@/api/endpoints/auth'
+import type { UnlockRequest, User } from '@/api/types'
 import { ValidationError } from '@/api/types'
+import { clearQueryCache } from '@/api/queryCache'
+import { broadcastToTabs, onTabMessage } from '@/utils/tabSync'
+import { getIdleLockTimeoutMs } from '@/utils/env'
+import { rememberRecentUser } from '@/utils/recentUsers'
+import { safeRedirectPath } from '@/utils/redirect'
+import { userCan } from '@/permissions'
+import { useRolesStore } from '@/stores/roles'
 import router from '@/router'
 
 const TOKEN_KEY = 'token'
+const REFRESH_TOKEN_KEY = 'refresh_token'
+const TOKEN_EXPIRES_AT_KEY = 'token_expires_at'
+const LOCKED_KEY = 'session_locked'
+const LAST_ACTIVITY_KEY = 'last_activity_at'
+const IMPERSONATION_KEY = 'impersonation'
+
+/** Eventos que contam como atividade do usuário */
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const
+const IDLE_CHECK_INTERVAL_MS = 10 * 1000
+/** Intervalo mínimo entre gravações da última atividade (compartilhada entre abas) */
+const ACTIVITY_WRITE_THROTTLE_MS = 5 * 1000
+
+function readExpiresAt(): number | null {
+  const value = Number(localStorage.getItem(TOKEN_EXPIRES_AT_KEY))
+  return Number.isFinite(value) && value > 0 ? value : null
+}
+
+/**
+ * Impersonação em andamento: quem iniciou e a sessão do admin a restaurar na saída
+ */
+export interface ImpersonationSession {
+  id: number
+  startedAt: number
+  impersonator: { id: number; name: string }
+  targetUserId: number
+  token: string
+  refreshToken: string | null
+  expiresAt: number | null
+}
+
+function readImpersonation(): ImpersonationSession | null {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(IMPERSONATION_KEY) ?? 'null')
+    return parsed && typeof parsed.token === 'string' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Dados de sessão devolvidos por login/refresh
+ */
+interface SessionTokens {
+  token: string
+  refresh_token?: string
+  expires_in?: number
+}
 
 export const useAuthStore = defineStore('auth', () => {
   // State
   const token = ref<string | null>(localStorage.getItem(TOKEN_KEY))
+  const refreshToken = ref<string | null>(localStorage.getItem(REFRESH_TOKEN_KEY))
+  const expiresAt = ref<number | null>(readExpiresAt())
   const user = ref<User | null>(null)
   const loading = ref(false)
   const error = ref<string | null>(null)
+  // Tela travada por inatividade: token, rota e carrinho continuam intactos
+  const locked = ref(localStorage.getItem(LOCKED_KEY) === '1')
+  // Admin "vendo como" outro usuário (sobrevive a reload)
+  const impersonation = ref<ImpersonationSession | null>(readImpersonation())
+
+  const idleTimeoutMs = getIdleLockTimeoutMs()
+  let lastActivityAt = Date.now()
+  let idleTimer: ReturnType<typeof setInterval> | null = null
+
+  // Renovação em andamento, compartilhada por todos os 401 concorrentes
+  let refreshPromise: Promise<boolean> | null = null
 
   // Getters
   const isAuthenticated = computed(() => !!token.value && !!user.value)
+  const canRefresh = computed(() => !!refreshToken.value)
+  const isImpersonating = computed(() => !!impersonation.value)
 
   // Actions
   function setToken(newToken: string | null) {
@@ -31,14 +110,179 @@ export const useAuthStore = defineStore('auth', () => {
     }
   }
 
+  function setRefreshToken(newRefreshToken: string | null) {
+    refreshToken.value = newRefreshToken
+    if (newRefreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, newRefreshToken)
+    } else {
+      localStorage.removeItem(REFRESH_TOKEN_KEY)
+    }
+  }
+
+  function setExpiresAt(timestamp: number | null) {
+    expiresAt.value = timestamp
+    if (timestamp) {
+      localStorage.setItem(TOKEN_EXPIRES_AT_KEY, String(timestamp))
+    } else {
+      localStorage.removeItem(TOKEN_EXPIRES_AT_KEY)
+    }
+  }
+
+  /**
+   * Aplica tokens recebidos do login/refresh
+   * Sem refresh_token na resposta, mantém o atual (backend sem rotação)
+   */
+  function setSession(session: SessionTokens) {
+    setToken(session.token)
+    if (session.refresh_token) {
+      setRefreshToken(session.refresh_token)
+    }
+    setExpiresAt(session.expires_in ? Date.now() + session.expires_in * 1000 : null)
+  }
+
+  /**
+   * Tokens atuais no formato das mensagens entre abas
+   */
+  function currentTokens() {
+    return {
+      token: token.value ?? '',
+      refreshToken: refreshToken.value,
+      expiresAt: expiresAt.value,
+    }
+  }
+
+  /**
+   * Aplica tokens recebidos de outra aba (sem retransmitir)
+   */
+  function applyRemoteTokens(tokens: {
+    token: string
+    refreshToken: string | null
+    expiresAt: number | null
+  }) {
+    setToken(tokens.token)
+    setRefreshToken(tokens.refreshToken)
+    setExpiresAt(tokens.expiresAt)
+  }
+
   function setUser(newUser: User | null) {
+    const rolesStore = useRolesStore()
+    // A lista de roles carregada vale para o usuário que a carregou
+    if (newUser?.id !== user.value?.id) rolesStore.reset()
     user.value = newUser
+    // Permissões do usuário valem mesmo sem acesso à lista completa de roles
+    rolesStore.setOwnRoles(newUser?.role_definitions ?? [])
+  }
+
+  function setLocked(value: boolean) {
+    locked.value = value
+    if (value) {
+      localStorage.setItem(LOCKED_KEY, '1')
+    } else {
+      localStorage.removeItem(LOCKED_KEY)
+    }
+  }
+
+  function setImpersonation(session: ImpersonationSession | null) {
+    impersonation.value = session
+    if (session) {
+      localStorage.setItem(IMPERSONATION_KEY, JSON.stringify(session))
+    } else {
+      localStorage.removeItem(IMPERSONATION_KEY)
+    }
   }
 
-  function clearAuth() {
+  /**
+   * Fecha a janela de impersonação na auditoria e volta aos tokens do admin.
+   * O fechamento usa o token do admin: o emitido para o usuário alvo pode já ter expirado.
+   * Retorna a impersonação encerrada (null se não havia).
+   */
+  async function closeImpersonation(): Promise<ImpersonationSession | null> {
+    const session = impersonation.value
+    if (!session) return null
+
+    // Antes da chamada: um 401 nela encerra a sessão do admin, sem voltar aqui
+    setImpersonation(null)
+    applyRemoteTokens(session)
+    try {
+      await stopImpersonationApi(session.id)
+    } catch (err) {
+      console.error('Erro ao encerrar impersonação na API:', err)
+    }
+    return session
+  }
+
+  /**
+   * Limpa a autenticação local. Durante uma impersonação, a janela é fechada na auditoria
+   * e a sessão do admin também é encerrada.
+   */
+  async function clearAuth() {
+    if (await closeImpersonation()) {
+      try {
+        await logoutApi()
+      } catch (err) {
+        console.error('Erro ao encerrar a sessão do admin na API:', err)
+      }
+    }
     setToken(null)
+    setRefreshToken(null)
+    setExpiresAt(null)
     setUser(null)
+    setLocked(false)
+    setImpersonation(null)
     error.value = null
+    // Dados em cache pertencem à sessão encerrada
+    clearQueryCache()
+  }
+
+  /**
+   * Renova o access token usando o refresh token.
+   * Chamadas concorrentes compartilham a mesma renovação.
+   * Retorna false se não há refresh token ou se a renovação falhou.
+   */
+  function refreshSession(): Promise<boolean> {
+    if (!refreshToken.value) return Promise.resolve(false)
+
+    if (!refreshPromise) {
+      refreshPromise = refreshTokenApi({ refresh_token: refreshToken.value })
+        .then(response => {
+          setSession(response)
+          broadcastToTabs({ type: 'token', ...currentTokens() })
+          return true
+        })
+        .catch(err => {
+          console.error('Erro ao renovar sessão:', err)
+          return false
+        })
+        .finally(() => {
+          refreshPromise = null
+        })
+    }
+
+    return refreshPromise
+  }
+
+  /**
+   * Sessão expirada sem possibilidade de renovação:
+   * limpa a autenticação e leva ao login preservando a rota atual.
+   * Se a sessão expirada era uma impersonação, volta para a sessão do admin.
+   */
+  async function expireSession() {
+    if (impersonation.value) {
+      await stopImpersonation()
+      return
+    }
+    await endSession()
+    broadcastToTabs({ type: 'logout' })
+  }
+
+  /**
+   * Limpa a autenticação local e vai para o login lembrando a rota atual
+   */
+  async function endSession() {
+    const current = router.currentRoute.value
+    await clearAuth()
+    if (current.name === 'login') return
+    router.push({ name: 'login', query: { redirect: current.fullPath } })
   }
 
   async function login(email: string, password: string) {
@@ -47,8 +291,11 @@ export const useAuthStore = defineStore('auth', () => {
 
     try {
       const response = await loginApi({ email, password })
-      setToken(response.token)
+      clearQueryCache()
+      setSession(response)
       setUser(response.user)
+      rememberRecentUser(response.user)
+      broadcastToTabs({ type: 'login', ...currentTokens() })
       return response
     } catch (err) {
       if (err instanceof ValidationError) {
@@ -71,6 +318,8 @@ export const useAuthStore = defineStore('auth', () => {
     error.value = null
 
     try {
+      // Saindo durante a impersonação: fechar a janela na auditoria e encerrar a sessão do admin
+      await closeImpersonation()
       if (token.value) {
         await logoutApi()
       }
@@ -78,15 +327,149 @@ export const useAuthStore = defineStore('auth', () => {
       // Mesmo se a API falhar, limpar o estado local
       console.error('Erro ao fazer logout na API:', err)
     } finally {
-      clearAuth()
+      await clearAuth()
+      broadcastToTabs({ type: 'logout' })
       loading.value = false
       router.push('/login')
     }
   }
 
+  /**
+   * Trava a tela (inatividade ou botão "Bloquear") em todas as abas
+   */
+  function lock() {
+    if (!token.value || locked.value || impersonation.value) return
+    setLocked(true)
+    broadcastToTabs({ type: 'locked' })
+  }
+
+  /**
+   * Destrava com o PIN do usuário ou, como alternativa, a senha completa
+   */
+  async function unlock(credentials: UnlockRequest) {
+    await unlockApi(credentials)
+    setLocked(false)
+    broadcastToTabs({ type: 'unlocked' })
+  }
+
+  /**
+   * Troca rápida de vendedor a partir da tela bloqueada, sem recarregar a página.
+   * A tela atual (e o carrinho) é mantida se o novo usuário tiver acesso a ela;
+   * a venda é registrada por quem a finalizar, pois segue o token vigente.
+   */
+  async function switchUser(userId: number, pin: string) {
+    const response = await switchUserApi({ user_id: userId, pin })
+    // Cache (ex.: seller_quantity) pertence ao usuário anterior
+    clearQueryCache()
+    setSession(response)
+    // O refresh token do usuário anterior não pode sobreviver à troca
+    setRefreshToken(response.refresh_token ?? null)
+    setUser(response.user)
+    setLocked(false)
+    rememberRecentUser(response.user)
+    broadcastToTabs({ type: 'login', ...currentTokens() })
+    broadcastToTabs({ type: 'unlocked' })
+
+    // Reavaliar a rota atual (roles/loja) com as permissões do novo usuário
+    const current = router.currentRoute.value
+    await router.replace({
+      path: current.path,
+      query: current.query,
+      hash: current.hash,
+      force: true,
+    })
+    return response
+  }
+
+  /**
+   * Admin: passa a ver o sistema como outro usuário (token emitido pelo backend).
+   * Toda a UI (guard, sidebar, telas) segue o usuário alvo; a sessão do admin fica guardada.
+   */
+  async function startImpersonation(targetUserId: number) {
+    const admin = user.value
+    if (!admin || !userCan(admin, 'user.impersonate') || impersonation.value || !token.value) {
+      return
+    }
+
+    const response = await impersonateUserApi(targetUserId)
+    setImpersonation({
+      id: response.impersonation_id,
+      startedAt: Date.now(),
+      impersonator: { id: admin.id, name: admin.name },
+      targetUserId,
+      token: token.value,
+      refreshToken: refreshToken.value,
+      expiresAt: expiresAt.value,
+    })
+    clearQueryCache()
+    setSession(response)
+    setRefreshToken(response.refresh_token ?? null)
+    setUser(response.user)
+    broadcastToTabs({ type: 'login', ...currentTokens() })
+    await router.push('/')
+  }
+
+  /**
+   * Encerra a impersonação e restaura a sessão do admin
+   */
+  async function stopImpersonation() {
+    // Registra o fim da janela na auditoria e revoga o token emitido
+    const session = await closeImpersonation()
+    if (!session) return
+
+    clearQueryCache()
+    setUser(null)
+    broadcastToTabs({ type: 'login', ...currentTokens() })
+    // O guard busca o admin novamente (renovando o token se tiver expirado)
+    await router.push(`/users/${session.targetUserId}`)
+  }
+
+  /**
+   * Cadastra/altera o PIN de desbloqueio do usuário logado
+   */
+  async function savePin(pin: string, password: string) {
+    await setPinApi({ pin, password })
+    if (user.value) {
+      setUser({ ...user.value, has_pin: true })
+      rememberRecentUser(user.value)
+    }
+  }
+
+  function recordActivity() {
+    const now = Date.now()
+    if (now - lastActivityAt < ACTIVITY_WRITE_THROTTLE_MS) return
+    lastActivityAt = now
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(now))
+  }
+
+  function checkIdle() {
+    // Atividade em outra aba também conta: o terminal está em uso
+    const sharedActivityAt = Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0
+    if (Date.now() - Math.max(lastActivityAt, sharedActivityAt) >= idleTimeoutMs) {
+      lock()
+    }
+  }
+
+  function startIdleTimer() {
+    if (idleTimer || idleTimeoutMs === 0) return
+    lastActivityAt = Date.now()
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(lastActivityAt))
+    ACTIVITY_EVENTS.forEach(event =>
+      window.addEventListener(event, recordActivity, { passive: true })
+    )
+    idleTimer = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS)
+  }
+
+  function stopIdleTimer() {
+    if (!idleTimer) return
+    clearInterval(idleTimer)
+    idleTimer = null
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity))
+  }
+
   async function fetchUser() {
     if (!token.value) {
-      clearAuth()
+      await clearAuth()
       return
     }
 
@@ -96,9 +479,12 @@ export const useAuthStore = defineStore('auth', () => {
     try {
       const userData = await me()
       setUser(userData)
+      if (!impersonation.value) {
+        rememberRecentUser(userData)
+      }
     } catch (err) {
       // 401 ou outro erro - limpar autenticação
-      clearAuth()
+      await clearAuth()
       if (err instanceof Error && err.message.includes('401')) {
         router.push('/login')
       }
@@ -108,19 +494,84 @@ export const useAuthStore = defineStore('auth', () => {
     }
   }
 
+  // Sincronização entre abas: login, logout e renovação de token feitos em outra aba
+  onTabMessage(message => {
+    switch (message.type) {
+      case 'login': {
+        clearQueryCache()
+        // Login, troca de usuário ou início/fim de impersonação em outra aba
+        impersonation.value = readImpersonation()
+        applyRemoteTokens(message)
+        fetchUser()
+          .then(() => {
+            // Esta aba estava na tela de login: seguir para o sistema
+            if (router.currentRoute.value.name === 'login') {
+              router.push(safeRedirectPath(router.currentRoute.value.query.redirect))
+            }
+          })
+          .catch(() => {
+            // o guard do router trata a falha na próxima navegação
+          })
+        break
+      }
+      case 'token':
+        if (token.value) {
+          applyRemoteTokens(message)
+        }
+        break
+      case 'logout':
+        // A aba que saiu já fechou a impersonação (se havia): não fechar de novo aqui
+        impersonation.value = readImpersonation()
+        if (token.value || user.value) {
+          endSession()
+        }
+        break
+      case 'locked':
+        if (token.value) {
+          setLocked(true)
+        }
+        break
+      case 'unlocked':
+        setLocked(false)
+        break
+    }
+  })
+
+  // Cronômetro de inatividade: só roda com sessão ativa e tela destravada.
+  // Durante a impersonação não há bloqueio: o admin não conhece o PIN do usuário alvo.
+  watch(
+    () => isAuthenticated.value && !locked.value && !isImpersonating.value,
+    active => (active ? startIdleTimer() : stopIdleTimer()),
+    { immediate: true }
+  )
+
   return {
     // State
     token,
+    refreshToken,
+    expiresAt,
     user,
     loading,
     error,
+    locked,
+    impersonation,
     // Getters
     isAuthenticated,
+    canRefresh,
+    isImpersonating,
     // Actions
     login,
     logout,
     fetchUser,
     clearAuth,
+    refreshSession,
+    expireSession,
+    lock,
+    unlock,
+    switchUser,
+    startImpersonation,
+    stopImpersonation,
+    savePin,
     setToken,
     setUser,
   }
@@ -0,0 +1,135 @@
+/**
+ * Store de roles (Pinia)
+ * Definições vindas do backend. A lista completa (`/roles`) pode não estar disponível para
+ * o usuário (ex.: 403); nesse caso valem os roles padrão de `permissions/policy.ts` somados
+ * às definições dos roles do próprio usuário, que chegam com ele (`User.role_definitions`).
+ * Roles desconhecidos não têm permissão alguma.
+ */
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import {
+  createRole as createRoleApi,
+  deleteRole as deleteRoleApi,
+  getRoles,
+  updateRole as updateRoleApi,
+} from '@/api/endpoints/roles'
+import type { RoleDefinition, RoleRequest } from '@/api/types'
+import { ApiError } from '@/api/types'
+import { builtInRoles, type Role, type RolePolicy } from '@/permissions/policy'
+
+function toPolicy(definition: RoleDefinition): RolePolicy {
+  return {
+    label: definition.label,
+    requiresStore: definition.requires_store,
+    permissions: definition.permissions,
+  }
+}
+
+function toPolicies(definitions: RoleDefinition[]): Record<Role, RolePolicy> {
+  return Object.fromEntries(definitions.map(role => [role.name, toPolicy(role)]))
+}
+
+export const useRolesStore = defineStore('roles', () => {
+  // State
+  const roles = ref<RoleDefinition[]>([])
+  /** Roles do usuário autenticado (sempre disponíveis, mesmo sem acesso a `/roles`) */
+  const ownRoles = ref<RoleDefinition[]>([])
+  const loaded = ref(false)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+  // Descarta carregamentos iniciados antes de um `reset`
+  let generation = 0
+
+  // Getters
+  const policies = computed<Record<Role, RolePolicy>>(() => {
+    // Lista ausente ou vazia (resposta fora do contrato em produção): valem os padrões
+    if (loaded.value && Array.isArray(roles.value) && roles.value.length > 0) {
+      return toPolicies(roles.value)
+    }
+    return { ...builtInRoles, ...toPolicies(ownRoles.value) }
+  })
+
+  /** Roles disponíveis para seleção (nome + rótulo), na ordem do backend */
+  const options = computed(() =>
+    Object.entries(policies.value).map(([name, policy]) => ({ name, label: policy.label }))
+  )
+
+  function getPolicy(role: Role): RolePolicy | null {
+    return policies.value[role] ?? null
+  }
+
+  // Actions
+  function setOwnRoles(definitions: RoleDefinition[]) {
+    ownRoles.value = definitions
+  }
+
+  /** Esquece a lista carregada (logout ou troca de usuário): o próximo acesso recarrega */
+  function reset() {
+    generation++
+    roles.value = []
+    loaded.value = false
+    loading.value = false
+    error.value = null
+  }
+
+  /**
+   * Carrega a lista completa; sem acesso a ela (403) valem os roles do próprio usuário.
+   * Outros erros ficam em `error` (não lança).
+   */
+  async function loadRoles() {
+    const current = ++generation
+    loading.value = true
+    error.value = null
+    try {
+      const list = await getRoles()
+      if (current !== generation) return
+      roles.value = Array.isArray(list) ? list : []
+    } catch (err) {
+      if (current !== generation) return
+      if (err instanceof ApiError && err.status === 403) return
+      console.error('Erro ao carregar roles:', err)
+      error.value = err instanceof Error ? err.message : 'Erro ao carregar roles'
+    } finally {
+      if (current === generation) {
+        loaded.value = true
+        loading.value = false
+      }
+    }
+  }
+
+  async function saveRole(data: RoleRequest, id?: number): Promise<RoleDefinition> {
+    const saved = id ? await updateRoleApi(id, data) : await createRoleApi(data)
+    const index = roles.value.findIndex(role => role.id === saved.id)
+    if (index >= 0) {
+      roles.value.splice(index, 1, saved)
+    } else {
+      roles.value.push(saved)
+    }
+    return saved
+  }
+
+  async function removeRole(id: number) {
+    await deleteRoleApi(id)
+    roles.value = roles.value.filter(role => role.id !== id)
+  }
+
+  return {
+    // State
+    roles,
+    ownRoles,
+    loaded,
+    loading,
+    error,
+    // Getters
+    policies,
+    options,
+    // Actions
+    getPolicy,
+    setOwnRoles,
+    reset,
+    loadRoles,
+    saveRole,
+    removeRole,
+  }
+})
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { isAmbiguousDecimal, normalizeText, parseCsv, parseDecimal } from '@/utils/csv'
+
+describe('parseCsv', () => {
+  it('lê o CSV do Excel em pt-BR (BOM, `;` e CRLF)', () => {
+    expect(parseCsv('\uFEFFmarca;produto;preço\r\nX;Pod;12,50\r\n')).toEqual([
+      ['marca', 'produto', 'preço'],
+      ['X', 'Pod', '12,50'],
+    ])
+  })
+
+  it('detecta a vírgula como separador', () => {
+    expect(parseCsv('marca,produto\nX,Pod')).toEqual([
+      ['marca', 'produto'],
+      ['X', 'Pod'],
+    ])
+  })
+
+  it('respeita aspas: separador, quebra de linha e aspas duplicadas dentro do campo', () => {
+    expect(parseCsv('nome;obs\n"Pod; menta";"linha 1\nlinha 2 ""nova"""')).toEqual([
+      ['nome', 'obs'],
+      ['Pod; menta', 'linha 1\nlinha 2 "nova"'],
+    ])
+  })
+
+  it('descarta linhas vazias e mantém campos vazios', () => {
+    expect(parseCsv('a;b;c\n\n;;\n1;;3\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '', '3'],
+    ])
+  })
+})
+
+describe('parseDecimal', () => {
+  it('aceita pt-BR e o padrão internacional', () => {
+    expect(parseDecimal('12,50')).toBe(12.5)
+    expect(parseDecimal('12.50')).toBe(12.5)
+    expect(parseDecimal('1.234,50')).toBe(1234.5)
+    expect(parseDecimal('1,234.50')).toBe(1234.5)
+    expect(parseDecimal('R$ 9,90')).toBe(9.9)
+    expect(parseDecimal('1234')).toBe(1234)
+    expect(parseDecimal('0.500')).toBe(0.5)
+  })
+
+  it('recusa texto vazio ou inválido', () => {
+    expect(parseDecimal('')).toBeNull()
+    expect(parseDecimal('  ')).toBeNull()
+    expect(parseDecimal('abc')).toBeNull()
+    expect(parseDecimal('12,5,0')).toBeNull()
+  })
+
+  it('não tenta adivinhar um ponto seguido de três dígitos', () => {
+    expect(parseDecimal('1.234')).toBeNull()
+    expect(parseDecimal('R$ 12.500')).toBeNull()
+  })
+})
+
+describe('isAmbiguousDecimal', () => {
+  it('só considera ambíguo um único ponto seguido de exatamente três dígitos', () => {
+    expect(isAmbiguousDecimal('1.234')).toBe(true)
+    expect(isAmbiguousDecimal('-999.000')).toBe(true)
+    expect(isAmbiguousDecimal('1.234,50')).toBe(false)
+    expect(isAmbiguousDecimal('1.23')).toBe(false)
+    expect(isAmbiguousDecimal('1.2345')).toBe(false)
+    expect(isAmbiguousDecimal('1234.567')).toBe(false)
+    expect(isAmbiguousDecimal('0.500')).toBe(false)
+    expect(isAmbiguousDecimal('1.234.567')).toBe(false)
+  })
+})
+
+describe('normalizeText', () => {
+  it('ignora acentos, maiúsculas e espaços repetidos', () => {
+    expect(normalizeText('  Maçã   VERDE ')).toBe('maca verde')
+  })
+})
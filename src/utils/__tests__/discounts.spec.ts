@@ -0,0 +1,248 @@
+import { describe, expect, it } from 'vitest'
+import type { Promotion } from '@/api/types'
+import {
+  isPromotionActive,
+  manualDiscountAmount,
+  priceCart,
+  saleDiscounts,
+  type PricingLine,
+} from '@/utils/discounts'
+
+function promotion(overrides: Partial<Promotion>): Promotion {
+  return {
+    id: 1,
+    name: 'Promoção',
+    kind: 'bundle',
+    store_id: null,
+    brand: null,
+    product_ids: [],
+    quantity: null,
+    price: null,
+    percent: null,
+    starts_at: null,
+    ends_at: null,
+    is_active: true,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+function line(
+  storeProductId: number,
+  unitPrice: number,
+  quantity: number,
+  brand = 'Marca'
+): PricingLine {
+  return { storeProductId, productId: storeProductId, brand, unitPrice, quantity }
+}
+
+describe('isPromotionActive', () => {
+  it('respeita status, loja e período (datas inclusivas)', () => {
+    const promo = promotion({ store_id: 3, starts_at: '2026-03-01', ends_at: '2026-03-31' })
+    expect(isPromotionActive(promo, 3, '2026-03-01')).toBe(true)
+    expect(isPromotionActive(promo, 3, '2026-03-31')).toBe(true)
+    expect(isPromotionActive(promo, 3, '2026-04-01')).toBe(false)
+    expect(isPromotionActive(promo, 4, '2026-03-10')).toBe(false)
+    expect(isPromotionActive({ ...promo, is_active: false }, 3, '2026-03-10')).toBe(false)
+    expect(isPromotionActive({ ...promo, store_id: null }, 4, '2026-03-10')).toBe(true)
+  })
+})
+
+describe('manualDiscountAmount', () => {
+  it('calcula percentual e valor fixo, sem passar da base', () => {
+    expect(manualDiscountAmount(80, { mode: 'percent', value: 12.5 })).toBe(10)
+    expect(manualDiscountAmount(80, { mode: 'fixed', value: 15 })).toBe(15)
+    expect(manualDiscountAmount(80, { mode: 'fixed', value: 500 })).toBe(80)
+    expect(manualDiscountAmount(80, { mode: 'percent', value: 0 })).toBe(0)
+    expect(manualDiscountAmount(0, { mode: 'fixed', value: 5 })).toBe(0)
+    expect(manualDiscountAmount(80, null)).toBe(0)
+  })
+})
+
+describe('priceCart', () => {
+  it('sem descontos, o total é o subtotal', () => {
+    const pricing = priceCart({
+      lines: [line(1, 19.9, 3), line(2, 5, 1)],
+      promotions: [],
+      itemDiscounts: {},
+      cartDiscount: null,
+    })
+    expect(pricing.subtotal).toBe(64.7)
+    expect(pricing.discountTotal).toBe(0)
+    expect(pricing.total).toBe(64.7)
+    expect(pricing.promotions).toEqual([])
+  })
+
+  it('aplica o desconto do item antes do desconto do carrinho, rateado pelo restante', () => {
+    const pricing = priceCart({
+      lines: [line(1, 50, 2), line(2, 30, 1)],
+      promotions: [],
+      itemDiscounts: { 1: { mode: 'percent', value: 10 } },
+      cartDiscount: { mode: 'fixed', value: 9 },
+    })
+    expect(pricing.lines).toEqual([
+      {
+        storeProductId: 1,
+        gross: 100,
+        promotionDiscount: 0,
+        itemDiscount: 10,
+        cartDiscount: 6.75,
+        net: 83.25,
+      },
+      {
+        storeProductId: 2,
+        gross: 30,
+        promotionDiscount: 0,
+        itemDiscount: 0,
+        cartDiscount: 2.25,
+        net: 27.75,
+      },
+    ])
+    expect(pricing.itemDiscount).toBe(10)
+    expect(pricing.cartDiscount).toBe(9)
+    expect(pricing.total).toBe(111)
+  })
+
+  it('rateia o desconto do carrinho em centavos, com a sobra no maior item', () => {
+    const pricing = priceCart({
+      lines: [line(1, 10, 1), line(2, 10, 1), line(3, 20, 1)],
+      promotions: [],
+      itemDiscounts: {},
+      cartDiscount: { mode: 'fixed', value: 1 },
+    })
+    const shares = pricing.lines.map(l => l.cartDiscount)
+    expect(shares).toEqual([0.25, 0.25, 0.5])
+    expect(pricing.total).toBe(39)
+  })
+
+  it('pacote usa as unidades mais caras da marca, sem diferenciar acentos e maiúsculas', () => {
+    const bundle = promotion({ id: 7, brand: 'Marca X', quantity: 3, price: '100.00' })
+    const pricing = priceCart({
+      lines: [line(1, 40, 2, 'marca x'), line(2, 45, 1, 'MARCA X'), line(3, 60, 1, 'Outra')],
+      promotions: [bundle],
+      itemDiscounts: {},
+      cartDiscount: null,
+    })
+    expect(pricing.promotions).toHaveLength(1)
+    expect(pricing.promotions[0]).toMatchObject({ times: 1, amount: 25 })
+    expect(pricing.promotions[0]!.allocations).toEqual({ 1: 16, 2: 9 })
+    expect(pricing.promotionDiscount).toBe(25)
+    expect(pricing.total).toBe(160)
+  })
+
+  it('N-ésima unidade dá desconto a cada grupo completo do mesmo produto', () => {
+    const nth = promotion({ kind: 'nth-unit', product_ids: [1], quantity: 2, percent: 50 })
+    const pricing = priceCart({
+      lines: [line(1, 20, 5)],
+      promotions: [nth],
+      itemDiscounts: {},
+      cartDiscount: null,
+    })
+    expect(pricing.promotions[0]).toMatchObject({ times: 2, amount: 20 })
+    expect(pricing.total).toBe(80)
+  })
+
+  it('combo só se forma com uma unidade de cada produto', () => {
+    const combo = promotion({ kind: 'combo', product_ids: [1, 2], price: '50.00' })
+    const pricing = priceCart({
+      lines: [line(1, 30, 2), line(2, 30, 1)],
+      promotions: [combo],
+      itemDiscounts: {},
+      cartDiscount: null,
+    })
+    expect(pricing.promotions[0]).toMatchObject({ times: 1, amount: 10 })
+    expect(pricing.promotions[0]!.allocations).toEqual({ 1: 5, 2: 5 })
+    expect(pricing.total).toBe(80)
+  })
+
+  it('ignora promoção que não baixa o preço', () => {
+    const bundle = promotion({ product_ids: [1], quantity: 2, price: '90.00' })
+    const pricing = priceCart({
+      lines: [line(1, 40, 2)],
+      promotions: [bundle],
+      itemDiscounts: {},
+      cartDiscount: null,
+    })
+    expect(pricing.promotions).toEqual([])
+    expect(pricing.total).toBe(80)
+  })
+
+  it('cada unidade entra em no máximo uma promoção, na ordem recebida', () => {
+    const first = promotion({ id: 1, kind: 'nth-unit', product_ids: [1], quantity: 2, percent: 50 })
+    const second = promotion({ id: 2, product_ids: [1], quantity: 2, price: '30.00' })
+    const pricing = priceCart({
+      lines: [line(1, 20, 4)],
+      promotions: [first, second],
+      itemDiscounts: {},
+      cartDiscount: null,
+    })
+    expect(pricing.promotions.map(applied => applied.promotion.id)).toEqual([1])
+    expect(pricing.promotionDiscount).toBe(20)
+  })
+
+  it('desconto manual do item incide sobre o que sobrou após as promoções', () => {
+    const nth = promotion({ kind: 'nth-unit', product_ids: [1], quantity: 2, percent: 100 })
+    const pricing = priceCart({
+      lines: [line(1, 10, 2)],
+      promotions: [nth],
+      itemDiscounts: { 1: { mode: 'fixed', value: 50 } },
+      cartDiscount: null,
+    })
+    expect(pricing.lines[0]).toMatchObject({ promotionDiscount: 10, itemDiscount: 10, net: 0 })
+    expect(pricing.total).toBe(0)
+  })
+})
+
+describe('saleDiscounts', () => {
+  it('gera um registro por promoção e item, por desconto no item e um para o carrinho', () => {
+    const nth = promotion({ id: 9, kind: 'nth-unit', product_ids: [1], quantity: 2, percent: 50 })
+    const itemDiscounts = { 2: { mode: 'percent' as const, value: 10 } }
+    const cartDiscount = { mode: 'fixed' as const, value: 5 }
+    const pricing = priceCart({
+      lines: [line(1, 20, 2), line(2, 50, 1)],
+      promotions: [nth],
+      itemDiscounts,
+      cartDiscount,
+    })
+
+    expect(saleDiscounts(pricing, itemDiscounts, cartDiscount)).toEqual([
+      {
+        source: 'promotion',
+        promotion_id: 9,
+        store_product_id: 1,
+        mode: null,
+        value: null,
+        amount: 10,
+      },
+      {
+        source: 'item',
+        promotion_id: null,
+        store_product_id: 2,
+        mode: 'percent',
+        value: 10,
+        amount: 5,
+      },
+      {
+        source: 'cart',
+        promotion_id: null,
+        store_product_id: null,
+        mode: 'fixed',
+        value: 5,
+        amount: 5,
+      },
+    ])
+  })
+
+  it('omite descontos que não resultaram em valor', () => {
+    const pricing = priceCart({
+      lines: [line(1, 20, 1)],
+      promotions: [],
+      itemDiscounts: { 1: { mode: 'fixed', value: 0 } },
+      cartDiscount: { mode: 'percent', value: 0 },
+    })
+    expect(
+      saleDiscounts(pricing, { 1: { mode: 'fixed', value: 0 } }, { mode: 'percent', value: 0 })
+    ).toEqual([])
+  })
+})
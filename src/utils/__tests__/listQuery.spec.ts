@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatQueryValue,
+  omitQueryKeys,
+  parseQueryList,
+  parseQueryOption,
+  parseQueryPage,
+  parseQueryValue,
+  queryMatches,
+} from '@/utils/listQuery'
+
+describe('parseQueryValue / formatQueryValue', () => {
+  it('ida e volta preservam o valor de cada tipo', () => {
+    for (const [value, type] of [
+      ['ignite', 'string'],
+      [12, 'number'],
+      [-1.5, 'number'],
+      [true, 'boolean'],
+      [false, 'boolean'],
+    ] as const) {
+      expect(parseQueryValue(formatQueryValue(value), type)).toBe(value)
+    }
+  })
+
+  it('lê o primeiro valor repetido e aceita true/false por extenso', () => {
+    expect(parseQueryValue(['a', 'b'], 'string')).toBe('a')
+    expect(parseQueryValue('true', 'boolean')).toBe(true)
+    expect(parseQueryValue('false', 'boolean')).toBe(false)
+  })
+
+  it('ignora valores vazios, ausentes ou inválidos para o tipo', () => {
+    expect(parseQueryValue('', 'string')).toBeUndefined()
+    expect(parseQueryValue(undefined, 'string')).toBeUndefined()
+    expect(parseQueryValue(null, 'string')).toBeUndefined()
+    expect(parseQueryValue('abc', 'number')).toBeUndefined()
+    expect(parseQueryValue('sim', 'boolean')).toBeUndefined()
+  })
+})
+
+describe('parseQueryOption / parseQueryPage / parseQueryList', () => {
+  it('aceita só opções permitidas', () => {
+    expect(parseQueryOption('total_amount', ['sale_date', 'total_amount'])).toBe('total_amount')
+    expect(parseQueryOption('id; drop', ['sale_date', 'total_amount'])).toBeUndefined()
+  })
+
+  it('página é um inteiro positivo', () => {
+    expect(parseQueryPage('3')).toBe(3)
+    expect(parseQueryPage('0')).toBeUndefined()
+    expect(parseQueryPage('2.5')).toBeUndefined()
+    expect(parseQueryPage('-1')).toBeUndefined()
+  })
+
+  it('lista mantém a ordem da URL, sem desconhecidos nem repetidos', () => {
+    const allowed = ['name', 'phone', 'total'] as const
+    expect(parseQueryList('total,x,name,total', allowed)).toEqual(['total', 'name'])
+    expect(parseQueryList('x,y', allowed)).toBeUndefined()
+    expect(parseQueryList(undefined, allowed)).toBeUndefined()
+  })
+})
+
+describe('queryMatches / omitQueryKeys', () => {
+  it('compara só as chaves da lista, tratando ausente e undefined como iguais', () => {
+    const current = { search: 'pod', page: '2', tab: 'estoque' }
+    expect(queryMatches(current, { search: 'pod', page: '2' }, ['search', 'page', 'sort_by'])).toBe(
+      true
+    )
+    expect(queryMatches(current, { search: 'pod' }, ['search', 'page'])).toBe(false)
+  })
+
+  it('preserva as chaves de outras telas ao regravar a query', () => {
+    const current = { search: 'pod', page: '2', tab: 'estoque' }
+    expect(omitQueryKeys(current, ['search', 'page'])).toEqual({ tab: 'estoque' })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import type { SalePayment } from '@/api/types'
+import {
+  describePayments,
+  paymentsPayload,
+  summarizePayments,
+  type PaymentLine,
+} from '@/utils/payments'
+
+function payment(method: PaymentLine['method'], amount: number | null, installments = 1) {
+  return { method, amount, installments }
+}
+
+describe('summarizePayments', () => {
+  it('fecha o total com pagamento dividido e calcula o troco só sobre o dinheiro', () => {
+    const summary = summarizePayments(100, [payment('pix', 40), payment('cash', 60)], 100)
+    expect(summary).toEqual({ paid: 100, remaining: 0, cashAmount: 60, change: 40, problem: null })
+  })
+
+  it('arredonda em centavos', () => {
+    const summary = summarizePayments(0.3, [payment('pix', 0.1), payment('debit', 0.2)], null)
+    expect(summary.paid).toBe(0.3)
+    expect(summary.remaining).toBe(0)
+    expect(summary.problem).toBeNull()
+  })
+
+  it('exige forma de pagamento, exceto em venda zerada', () => {
+    expect(summarizePayments(50, [], null).problem).toBe('Escolha a forma de pagamento')
+    expect(summarizePayments(0, [], null).problem).toBeNull()
+  })
+
+  it('exige valor em cada pagamento', () => {
+    const summary = summarizePayments(50, [payment('pix', 50), payment('credit', null)], null)
+    expect(summary.problem).toBe('Informe o valor de cada pagamento')
+  })
+
+  it('aponta o que falta ou o que passa do total', () => {
+    expect(summarizePayments(50, [payment('pix', 40)], null).problem).toMatch(
+      /^Faltam R\$\s10,00 para fechar o total$/
+    )
+    const over = summarizePayments(50, [payment('pix', 55.5)], null)
+    expect(over.remaining).toBe(-5.5)
+    expect(over.problem).toMatch(/^Os pagamentos passam do total em R\$\s5,50$/)
+  })
+
+  it('exige dinheiro recebido que cubra a parte em dinheiro', () => {
+    expect(summarizePayments(30, [payment('cash', 30)], null).problem).toMatch(
+      /^Informe o dinheiro recebido \(mínimo R\$\s30,00\)$/
+    )
+    const short = summarizePayments(30, [payment('cash', 30)], 20)
+    expect(short.change).toBe(0)
+    expect(short.problem).not.toBeNull()
+    expect(summarizePayments(30, [payment('cash', 30)], 30).problem).toBeNull()
+  })
+})
+
+describe('paymentsPayload', () => {
+  it('envia parcelas só no crédito', () => {
+    expect(
+      paymentsPayload([payment('credit', 120, 3), payment('debit', 10.004, 2), payment('cash', 5)])
+    ).toEqual([
+      { method: 'credit', amount: 120, installments: 3 },
+      { method: 'debit', amount: 10, installments: null },
+      { method: 'cash', amount: 5, installments: null },
+    ])
+  })
+})
+
+describe('describePayments', () => {
+  it('resume as formas de pagamento, com parcelas acima de uma', () => {
+    const payments: SalePayment[] = [
+      { method: 'pix', amount: '20.00', installments: null },
+      { method: 'credit', amount: '80.00', installments: 3 },
+      { method: 'credit', amount: '10.00', installments: 1 },
+    ]
+    expect(describePayments(payments)).toBe('Pix + Crédito 3× + Crédito')
+    expect(describePayments([])).toBe('')
+    expect(describePayments(undefined)).toBe('')
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { marginPercent, priceForRule, roundToEnding } from '@/utils/pricing'
+
+describe('roundToEnding', () => {
+  it('sobe para o menor preço com o final pedido', () => {
+    expect(roundToEnding(12.34, '0.90')).toBe(12.9)
+    expect(roundToEnding(12.34, '0.99')).toBe(12.99)
+    expect(roundToEnding(12.95, '0.90')).toBe(13.9)
+    expect(roundToEnding(12.9, '0.90')).toBe(12.9)
+    expect(roundToEnding(13, '0.99')).toBe(13.99)
+  })
+})
+
+describe('marginPercent', () => {
+  it('calcula a margem sobre o preço de venda', () => {
+    expect(marginPercent(60, 100)).toBe(40)
+    expect(marginPercent(120, 100)).toBe(-20)
+    expect(marginPercent(60, 0)).toBeNull()
+  })
+})
+
+describe('priceForRule', () => {
+  it('margem: preço em que o lucro é o percentual da venda', () => {
+    expect(priceForRule(60, 80, { method: 'margin', percent: 40, ending: null })).toEqual({
+      price: 100,
+      problem: null,
+    })
+    expect(priceForRule(10, 0, { method: 'margin', percent: 33, ending: null }).price).toBe(14.93)
+  })
+
+  it('markup: percentual sobre o custo', () => {
+    expect(priceForRule(60, 80, { method: 'markup', percent: 50, ending: null })).toEqual({
+      price: 90,
+      problem: null,
+    })
+  })
+
+  it('arredondamento: mantém o preço atual e só ajusta o final', () => {
+    expect(priceForRule(0, 12.34, { method: 'round', percent: null, ending: '0.90' })).toEqual({
+      price: 12.9,
+      problem: null,
+    })
+  })
+
+  it('aplica o final de preço depois da regra', () => {
+    expect(priceForRule(10, 0, { method: 'margin', percent: 33, ending: '0.99' }).price).toBe(14.99)
+  })
+
+  it('não calcula sem custo, com margem de 100% ou com preço zerado', () => {
+    expect(priceForRule(0, 50, { method: 'margin', percent: 30, ending: null })).toEqual({
+      price: null,
+      problem: 'Sem preço de custo',
+    })
+    expect(priceForRule(0, 50, { method: 'markup', percent: 30, ending: null }).problem).toBe(
+      'Sem preço de custo'
+    )
+    expect(priceForRule(50, 80, { method: 'margin', percent: 100, ending: null }).problem).toBe(
+      'Margem deve ser menor que 100%'
+    )
+    expect(priceForRule(50, 80, { method: 'markup', percent: -100, ending: null }).problem).toBe(
+      'O preço ficaria zerado ou negativo'
+    )
+    expect(priceForRule(0, 0, { method: 'round', percent: null, ending: null }).problem).toBe(
+      'O preço ficaria zerado ou negativo'
+    )
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import type { CashMovement, Sale, SalePayment, Shift } from '@/api/types'
+import { countTotal, denominationLabel, parseCountedAmounts, shiftReport } from '@/utils/shifts'
+
+const TIMESTAMP = '2026-05-04T12:00:00Z'
+
+function shift(overrides: Partial<Shift> = {}): Shift {
+  return {
+    id: 1,
+    store_id: 1,
+    user_id: 1,
+    status: 'open',
+    opening_float: '100.00',
+    opened_at: TIMESTAMP,
+    closed_at: null,
+    closing_count: null,
+    counted_amounts: null,
+    notes: null,
+    created_at: TIMESTAMP,
+    updated_at: TIMESTAMP,
+    ...overrides,
+  }
+}
+
+function movement(id: number, kind: CashMovement['kind'], amount: string): CashMovement {
+  return { id, shift_id: 1, kind, amount, reason: 'Teste', created_at: TIMESTAMP }
+}
+
+function sale(id: number, total: string, payments: SalePayment[]): Sale {
+  return {
+    id,
+    store_id: 1,
+    user_id: 1,
+    customer_id: null,
+    total_amount: total,
+    sale_date: TIMESTAMP,
+    notes: null,
+    created_at: TIMESTAMP,
+    updated_at: TIMESTAMP,
+    payments,
+  }
+}
+
+describe('countTotal', () => {
+  it('soma cédulas e moedas em centavos', () => {
+    expect(countTotal({ '100': 2, '20': 3, '0.10': 3, '0.05': 1 })).toBe(260.35)
+    expect(countTotal({})).toBe(0)
+    expect(countTotal(null)).toBe(0)
+  })
+})
+
+describe('denominationLabel', () => {
+  it('marca as moedas', () => {
+    expect(denominationLabel('50')).toMatch(/^R\$\s50,00$/)
+    expect(denominationLabel('0.25')).toMatch(/^R\$\s0,25 \(moeda\)$/)
+  })
+})
+
+describe('parseCountedAmounts', () => {
+  it('converte os valores conferidos para número', () => {
+    expect(parseCountedAmounts({ cash: '180.50', pix: '30.00' })).toEqual({ cash: 180.5, pix: 30 })
+    expect(parseCountedAmounts(null)).toBeNull()
+  })
+})
+
+describe('shiftReport', () => {
+  const sales = [
+    sale(1, '80.00', [
+      { method: 'cash', amount: '50.00', installments: null },
+      { method: 'pix', amount: '30.00', installments: null },
+    ]),
+    sale(2, '120.50', [{ method: 'credit', amount: '120.50', installments: 2 }]),
+    sale(3, '20.00', [{ method: 'cash', amount: '20.00', installments: null }]),
+  ]
+  const withMovements = shift({
+    movements: [movement(1, 'cash-in', '50.00'), movement(2, 'cash-out', '30.25')],
+  })
+
+  it('espera no caixa o fundo, o dinheiro das vendas e as movimentações', () => {
+    const report = shiftReport(withMovements, sales, null)
+    expect(report).toMatchObject({
+      salesCount: 3,
+      salesTotal: 220.5,
+      openingFloat: 100,
+      cashIn: 50,
+      cashOut: 30.25,
+      difference: 0,
+    })
+    expect(report.rows.map(row => [row.method, row.expected])).toEqual([
+      ['cash', 189.75],
+      ['pix', 30],
+      ['debit', 0],
+      ['credit', 120.5],
+    ])
+    expect(report.rows.every(row => row.counted === null && row.difference === null)).toBe(true)
+  })
+
+  it('compara o contado com o esperado só nas formas conferidas', () => {
+    const report = shiftReport(withMovements, sales, { cash: 180, pix: 30 })
+    expect(report.rows).toEqual([
+      { method: 'cash', label: 'Dinheiro', expected: 189.75, counted: 180, difference: -9.75 },
+      { method: 'pix', label: 'Pix', expected: 30, counted: 30, difference: 0 },
+      { method: 'debit', label: 'Débito', expected: 0, counted: null, difference: null },
+      { method: 'credit', label: 'Crédito', expected: 120.5, counted: null, difference: null },
+    ])
+    expect(report.difference).toBe(-9.75)
+  })
+
+  it('turno sem vendas espera só o fundo de troco', () => {
+    const report = shiftReport(shift({ opening_float: '150.00' }), [], { cash: 150 })
+    expect(report.rows[0]).toMatchObject({ expected: 150, difference: 0 })
+    expect(report.salesTotal).toBe(0)
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createSpreadsheetWriter,
+  SPREADSHEET_MIME_TYPES,
+  type ExportColumn,
+} from '@/utils/spreadsheet'
+import { unzip } from './unzip'
+
+interface Row {
+  name: string
+  quantity: number
+  price: string | null
+  soldAt: string
+  active: boolean
+}
+
+const columns: ExportColumn<Row>[] = [
+  { header: 'Produto', value: row => row.name },
+  { header: 'Qtd.', type: 'integer', value: row => row.quantity },
+  { header: 'Preço', type: 'currency', value: row => row.price },
+  { header: 'Vendido em', type: 'datetime', value: row => row.soldAt },
+  { header: 'Ativo', type: 'boolean', value: row => row.active },
+]
+
+// Horário local, como a planilha mostra
+const soldAt = new Date(2026, 4, 4, 9, 5).toISOString()
+
+const rows: Row[] = [
+  { name: 'Pod "menta"; 5%', quantity: 3, price: '1234.5', soldAt, active: true },
+  { name: '=HYPERLINK("http://x")', quantity: -2, price: '-10', soldAt, active: false },
+  { name: '@SUM(A1)', quantity: 0, price: null, soldAt: '', active: true },
+]
+
+describe('CSV', () => {
+  async function csv(data: Row[]): Promise<string[]> {
+    const writer = createSpreadsheetWriter('csv', columns, 'Vendas')
+    writer.writeRows(data.slice(0, 1))
+    writer.writeRows([])
+    writer.writeRows(data.slice(1))
+    const blob = writer.finish()
+    expect(blob.type).toBe(SPREADSHEET_MIME_TYPES.csv)
+    // Blob.text() descarta o BOM: confere os bytes
+    const bytes = new Uint8Array(await blob.arrayBuffer())
+    expect([...bytes.subarray(0, 3)]).toEqual([0xef, 0xbb, 0xbf])
+    return (await blob.text()).split('\r\n')
+  }
+
+  it('usa `;`, vírgula decimal e datas dd/mm/aaaa, com aspas quando preciso', async () => {
+    const [header, first] = await csv(rows)
+    expect(header).toBe('Produto;Qtd.;Preço;Vendido em;Ativo')
+    expect(first).toBe('"Pod ""menta""; 5%";3;1234,50;04/05/2026 09:05;Sim')
+  })
+
+  it('neutraliza texto que viraria fórmula, sem mexer em números negativos', async () => {
+    const lines = await csv(rows)
+    expect(lines[2]).toBe('"\'=HYPERLINK(""http://x"")";-2;-10,00;04/05/2026 09:05;Não')
+    expect(lines[3]).toBe("'@SUM(A1);0;;;Sim")
+    expect(lines[4]).toBe('')
+  })
+
+  it('prefixa todos os inícios perigosos em células de texto', async () => {
+    const text = ['+1', '-1', '\tx', '\rx', 'ok'].map(name => ({ ...rows[0]!, name }))
+    const lines = await csv(text)
+    expect(lines.slice(1, 6).map(line => line.split(';')[0])).toEqual([
+      "'+1",
+      "'-1",
+      "'\tx",
+      '"\'\rx"',
+      'ok',
+    ])
+  })
+})
+
+describe('XLSX', () => {
+  it('monta o pacote com números, datas e texto inline', async () => {
+    const writer = createSpreadsheetWriter('xlsx', columns, 'Vendas: maio/2026')
+    writer.writeRows(rows)
+    const blob = writer.finish()
+    expect(blob.type).toBe(SPREADSHEET_MIME_TYPES.xlsx)
+
+    const files = await unzip(blob)
+    expect([...files.keys()].sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/workbook.xml',
+      'xl/worksheets/sheet1.xml',
+    ])
+    expect(files.get('xl/workbook.xml')!.text).toContain('<sheet name="Vendas  maio 2026"')
+
+    const sheet = files.get('xl/worksheets/sheet1.xml')!.text
+    expect(sheet).toContain(
+      '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">Pod &quot;menta&quot;; 5%</t></is></c>' +
+        '<c r="B2" s="1"><v>3</v></c><c r="C2" s="3"><v>1234.5</v></c>'
+    )
+    // Strings inline nunca viram fórmula: o texto vai sem o prefixo do CSV
+    expect(sheet).toContain('<t xml:space="preserve">=HYPERLINK(&quot;http://x&quot;)</t>')
+    expect(sheet).toContain('<c r="C3" s="3"><v>-10</v></c>')
+    // Célula vazia não é gravada
+    expect(sheet).toContain('<c r="B4" s="1"><v>0</v></c><c r="E4" t="inlineStr">')
+    expect(sheet.endsWith('</sheetData></worksheet>')).toBe(true)
+  })
+})
@@ -0,0 +1,42 @@
+/**
+ * Leitor de ZIP sem compressão, só para os testes: confere os cabeçalhos locais contra o
+ * diretório central e devolve o conteúdo de cada arquivo
+ */
+
+export interface UnzippedFile {
+  crc: number
+  text: string
+}
+
+const decoder = new TextDecoder()
+
+export async function unzip(blob: Blob): Promise<Map<string, UnzippedFile>> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+
+  const end = bytes.length - 22
+  if (view.getUint32(end, true) !== 0x06054b50) throw new Error('Fim do diretório central ausente')
+  const count = view.getUint16(end + 10, true)
+  let cursor = view.getUint32(end + 16, true)
+
+  const files = new Map<string, UnzippedFile>()
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(cursor, true) !== 0x02014b50) throw new Error('Entrada central inválida')
+    const crc = view.getUint32(cursor + 16, true)
+    const size = view.getUint32(cursor + 24, true)
+    const nameLength = view.getUint16(cursor + 28, true)
+    const offset = view.getUint32(cursor + 42, true)
+    const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength))
+
+    if (view.getUint32(offset, true) !== 0x04034b50) throw new Error(`Cabeçalho local de ${name}`)
+    if (view.getUint32(offset + 14, true) !== crc) throw new Error(`CRC local de ${name}`)
+    if (view.getUint32(offset + 22, true) !== size) throw new Error(`Tamanho local de ${name}`)
+    const start =
+      offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true)
+    files.set(name, { crc, text: decoder.decode(bytes.subarray(start, start + size)) })
+
+    cursor +=
+      46 + nameLength + view.getUint16(cursor + 30, true) + view.getUint16(cursor + 32, true)
+  }
+  return files
+}
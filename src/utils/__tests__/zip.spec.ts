@@ -0,0 +1,30 @@
+import { crc32 } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { createZip } from '@/utils/zip'
+import { unzip } from './unzip'
+
+describe('createZip', () => {
+  it('gera um ZIP legível, com o conteúdo escrito em pedaços e o CRC correto', async () => {
+    const zip = createZip()
+    const first = zip.addFile('pasta/ação.txt')
+    first.write('olá, ')
+    first.write('mundo')
+    zip.addFile('vazio.txt')
+    zip.addFile('b.xml').write('<b/>')
+
+    const blob = zip.toBlob()
+    expect(blob.type).toBe('application/zip')
+
+    const files = await unzip(blob)
+    expect([...files.keys()]).toEqual(['pasta/ação.txt', 'vazio.txt', 'b.xml'])
+    expect(files.get('pasta/ação.txt')).toEqual({ crc: crc32('olá, mundo'), text: 'olá, mundo' })
+    expect(files.get('vazio.txt')).toEqual({ crc: 0, text: '' })
+    expect(files.get('b.xml')!.crc).toBe(crc32('<b/>'))
+  })
+
+  it('ZIP vazio tem só o fim do diretório central', async () => {
+    const blob = createZip().toBlob()
+    expect(blob.size).toBe(22)
+    expect((await unzip(blob)).size).toBe(0)
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Carrinhos guardados no dispositivo (IndexedDB)
+ * O carrinho em andamento e as vendas estacionadas (em espera) de cada vendedor por loja
+ * sobrevivem a recarregamentos, ao bloqueio de sessão e à troca de tela.
+ */
+
+import type { StoreProduct } from '@/api/types'
+import type { ManualDiscount } from '@/utils/discounts'
+
+/** Estado do carrinho como dado puro (sem refs/proxies), pronto para ser gravado */
+export interface CartSnapshot {
+  items: Array<{ storeProduct: StoreProduct; quantity: number }>
+  itemDiscounts: Record<number, ManualDiscount>
+  cartDiscount: ManualDiscount | null
+}
+
+export interface ParkedSale {
+  id: string
+  store_id: number
+  user_id: number
+  name: string
+  cart: CartSnapshot
+  customer: { id: number; name: string } | null
+  notes: string
+  parked_at: number
+}
+
+/** Venda em andamento do usuário na loja (um registro por usuário e loja) */
+export interface ActiveCart {
+  key: string
+  store_id: number
+  user_id: number
+  cart: CartSnapshot
+  customer: { id: number; name: string } | null
+  notes: string
+  saved_at: number
+}
+
+const DB_NAME = 'bosspods'
+const DB_VERSION = 2
+const PARKED_SALES = 'parked_sales'
+const ACTIVE_CARTS = 'active_carts'
+const OWNER_INDEX = 'owner'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('Este navegador não permite guardar carrinhos'))
+  }
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(PARKED_SALES)) {
+        const store = db.createObjectStore(PARKED_SALES, { keyPath: 'id' })
+        store.createIndex(OWNER_INDEX, ['user_id', 'store_id'])
+      }
+      if (!db.objectStoreNames.contains(ACTIVE_CARTS)) {
+        db.createObjectStore(ACTIVE_CARTS, { keyPath: 'key' })
+      }
+    }
+    dbPromise = requestResult(request)
+      .then(db => {
+        // Outra aba atualizando a versão do banco: liberar a conexão (reabre na próxima operação)
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        return db
+      })
+      .catch(err => {
+        // Permitir nova tentativa (ex.: banco bloqueado por outra aba)
+        dbPromise = null
+        throw err
+      })
+  }
+  return dbPromise
+}
+
+async function objectStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDb()
+  return db.transaction(name, mode).objectStore(name)
+}
+
+export function newParkedSaleId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Vendas estacionadas pelo usuário na loja, da mais antiga para a mais recente
+ */
+export async function listParkedSales(storeId: number, userId: number): Promise<ParkedSale[]> {
+  const store = await objectStore(PARKED_SALES, 'readonly')
+  const sales = await requestResult<ParkedSale[]>(
+    store.index(OWNER_INDEX).getAll([userId, storeId])
+  )
+  return sales.sort((a, b) => a.parked_at - b.parked_at)
+}
+
+/**
+ * Grava (ou substitui) uma venda estacionada. O carrinho precisa ser dado puro (sem proxies).
+ */
+export async function saveParkedSale(sale: ParkedSale): Promise<void> {
+  const store = await objectStore(PARKED_SALES, 'readwrite')
+  await requestResult(store.put(sale))
+}
+
+export async function deleteParkedSale(id: string): Promise<void> {
+  const store = await objectStore(PARKED_SALES, 'readwrite')
+  await requestResult(store.delete(id))
+}
+
+function activeCartKey(storeId: number, userId: number): string {
+  return `${userId}:${storeId}`
+}
+
+/**
+ * Venda em andamento guardada para o usuário na loja (null se não houver)
+ */
+export async function loadActiveCart(storeId: number, userId: number): Promise<ActiveCart | null> {
+  const store = await objectStore(ACTIVE_CARTS, 'readonly')
+  const saved = await requestResult<ActiveCart | undefined>(
+    store.get(activeCartKey(storeId, userId))
+  )
+  return saved ?? null
+}
+
+export async function saveActiveCart(
+  storeId: number,
+  userId: number,
+  data: Pick<ActiveCart, 'cart' | 'customer' | 'notes'>
+): Promise<void> {
+  const store = await objectStore(ACTIVE_CARTS, 'readwrite')
+  await requestResult(
+    store.put({
+      ...data,
+      key: activeCartKey(storeId, userId),
+      store_id: storeId,
+      user_id: userId,
+      saved_at: Date.now(),
+    })
+  )
+}
+
+export async function clearActiveCart(storeId: number, userId: number): Promise<void> {
+  const store = await objectStore(ACTIVE_CARTS, 'readwrite')
+  await requestResult(store.delete(activeCartKey(storeId, userId)))
+}
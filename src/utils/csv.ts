@@ -0,0 +1,110 @@
+/**
+ * Leitura de CSV enviado pelo usuário (importações)
+ * Aceita o CSV do Excel em pt-BR (`;` e vírgula decimal) e o padrão internacional (`,`),
+ * inclusive o gerado pela exportação das listas.
+ */
+
+/** Separador mais provável, pela primeira linha (fora de aspas) */
+function detectDelimiter(text: string): ';' | ',' {
+  let semicolons = 0
+  let commas = 0
+  let quoted = false
+  for (const char of text) {
+    if (char === '"') quoted = !quoted
+    else if (!quoted && (char === '\n' || char === '\r')) break
+    else if (!quoted && char === ';') semicolons++
+    else if (!quoted && char === ',') commas++
+  }
+  return semicolons >= commas && semicolons > 0 ? ';' : ','
+}
+
+/**
+ * Converte o texto em linhas de campos. Linhas totalmente vazias são descartadas.
+ */
+export function parseCsv(input: string): string[][] {
+  const text = input.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(text)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  function endRow() {
+    row.push(field)
+    if (row.some(value => value.trim() !== '')) rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n') {
+      endRow()
+    } else if (char !== '\r') {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) endRow()
+
+  return rows
+}
+
+function compactNumber(input: string): string {
+  return input.replace(/R\$/i, '').replace(/\s/g, '')
+}
+
+/**
+ * Um único ponto seguido de exatamente três dígitos ("1.234"): pode ser milhar em pt-BR
+ * (1234) ou decimal no padrão internacional (1,234)
+ */
+export function isAmbiguousDecimal(input: string): boolean {
+  return /^[+-]?[1-9]\d{0,2}\.\d{3}$/.test(compactNumber(input))
+}
+
+/**
+ * Número digitado em pt-BR ou no padrão internacional: "12,50", "1.234,50", "12.50", "R$ 9,90"
+ * Valores ambíguos (ver `isAmbiguousDecimal`) dão null, em vez de um palpite
+ */
+export function parseDecimal(input: string): number | null {
+  let text = compactNumber(input)
+  if (!text || isAmbiguousDecimal(text)) return null
+
+  const lastComma = text.lastIndexOf(',')
+  const lastDot = text.lastIndexOf('.')
+  if (lastComma > lastDot) {
+    // Vírgula decimal: pontos são separadores de milhar
+    text = text.replace(/\./g, '').replace(',', '.')
+  } else if (lastComma >= 0) {
+    // Ponto decimal: vírgulas são separadores de milhar
+    text = text.replace(/,/g, '')
+  }
+
+  const n = Number(text)
+  return Number.isFinite(n) ? n : null
+}
+
+/**
+ * Texto para comparação: sem acentos, sem diferença de maiúsculas e espaços repetidos
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+}
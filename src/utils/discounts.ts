@@ -0,0 +1,333 @@
+/**
+ * Cálculo de descontos do carrinho (PDV)
+ *
+ * Ordem de aplicação:
+ * 1. promoções vigentes, na ordem recebida da API (prioridade); cada unidade entra em no
+ *    máximo uma promoção, e uma promoção só é aplicada se baixar o preço
+ * 2. desconto manual no item, sobre o que sobrou do item após as promoções
+ * 3. desconto manual no carrinho, sobre o total restante, rateado entre os itens
+ * Valores em reais, arredondados em centavos.
+ */
+
+import type { DiscountMode, Promotion, SaleDiscountRequest } from '@/api/types'
+import { normalizeText } from '@/utils/csv'
+
+/** Desconto informado pelo vendedor (percentual ou valor fixo) */
+export interface ManualDiscount {
+  mode: DiscountMode
+  value: number
+}
+
+/** Item do carrinho visto pelo cálculo */
+export interface PricingLine {
+  storeProductId: number
+  /** Produto do catálogo (promoções são definidas por produto ou marca) */
+  productId: number
+  brand: string | null
+  unitPrice: number
+  quantity: number
+}
+
+export interface LinePricing {
+  storeProductId: number
+  gross: number
+  promotionDiscount: number
+  itemDiscount: number
+  /** Parte do desconto do carrinho atribuída ao item */
+  cartDiscount: number
+  net: number
+}
+
+export interface AppliedPromotion {
+  promotion: Promotion
+  /** Vezes que a promoção foi formada (pacotes, combos ou unidades com desconto) */
+  times: number
+  amount: number
+  /** Desconto por item (id do store product) */
+  allocations: Record<number, number>
+}
+
+export interface CartPricing {
+  lines: LinePricing[]
+  subtotal: number
+  promotionDiscount: number
+  itemDiscount: number
+  cartDiscount: number
+  discountTotal: number
+  total: number
+  promotions: AppliedPromotion[]
+}
+
+export interface CartPricingInput {
+  lines: PricingLine[]
+  /** Promoções já filtradas por loja e vigência (`isPromotionActive`) */
+  promotions: Promotion[]
+  itemDiscounts: Record<number, ManualDiscount>
+  cartDiscount: ManualDiscount | null
+}
+
+function cents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/** Data local no formato da API (YYYY-MM-DD) */
+export function localDateString(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Promoção ativa, da loja (ou de todas as lojas) e dentro do período na data
+ */
+export function isPromotionActive(promotion: Promotion, storeId: number, date: string): boolean {
+  if (!promotion.is_active) return false
+  if (promotion.store_id !== null && promotion.store_id !== storeId) return false
+  if (promotion.starts_at && date < promotion.starts_at.slice(0, 10)) return false
+  if (promotion.ends_at && date > promotion.ends_at.slice(0, 10)) return false
+  return true
+}
+
+/**
+ * Valor do desconto manual sobre `base` (nunca maior que a base)
+ */
+export function manualDiscountAmount(base: number, discount: ManualDiscount | null | undefined) {
+  if (!discount || !(discount.value > 0) || base <= 0) return 0
+  const amount = discount.mode === 'percent' ? (base * discount.value) / 100 : discount.value
+  return cents(Math.min(amount, base))
+}
+
+/**
+ * Divide `amount` proporcionalmente aos pesos, em centavos; a sobra vai para o maior peso
+ */
+function allocate(amount: number, weights: Array<[number, number]>): Record<number, number> {
+  const result: Record<number, number> = {}
+  const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0)
+  if (amount <= 0 || totalWeight <= 0) return result
+
+  let allocated = 0
+  let largest: [number, number] | null = null
+  for (const [id, weight] of weights) {
+    const share = cents((amount * weight) / totalWeight)
+    result[id] = cents((result[id] ?? 0) + share)
+    allocated = cents(allocated + share)
+    if (!largest || weight > largest[1]) largest = [id, weight]
+  }
+  if (largest) result[largest[0]] = cents((result[largest[0]] ?? 0) + amount - allocated)
+  return result
+}
+
+function isEligible(promotion: Promotion, line: PricingLine): boolean {
+  if (promotion.product_ids.includes(line.productId)) return true
+  if (!promotion.brand || !line.brand) return false
+  return normalizeText(promotion.brand) === normalizeText(line.brand)
+}
+
+/**
+ * Aplica uma promoção às unidades ainda livres (`remaining`), consumindo-as
+ */
+function applyPromotion(
+  promotion: Promotion,
+  lines: PricingLine[],
+  remaining: Map<number, number>
+): AppliedPromotion | null {
+  const applied: AppliedPromotion = { promotion, times: 0, amount: 0, allocations: {} }
+  const add = (shares: Record<number, number>) => {
+    for (const [id, value] of Object.entries(shares)) {
+      applied.allocations[Number(id)] = cents((applied.allocations[Number(id)] ?? 0) + value)
+    }
+  }
+  const price = promotion.price === null ? null : parseFloat(promotion.price)
+  const quantity = promotion.quantity ?? 0
+
+  switch (promotion.kind) {
+    case 'combo': {
+      const comboLines = [...new Set(promotion.product_ids)].map(id =>
+        lines.find(line => line.productId === id)
+      )
+      if (price === null || comboLines.length === 0 || comboLines.some(line => !line)) break
+      const members = comboLines as PricingLine[]
+      const fullPrice = members.reduce((sum, line) => sum + line.unitPrice, 0)
+      const discount = cents(fullPrice - price)
+      if (discount <= 0) break
+      while (members.every(line => (remaining.get(line.storeProductId) ?? 0) >= 1)) {
+        for (const line of members) {
+          remaining.set(line.storeProductId, (remaining.get(line.storeProductId) ?? 0) - 1)
+        }
+        add(
+          allocate(
+            discount,
+            members.map(line => [line.storeProductId, line.unitPrice])
+          )
+        )
+        applied.times++
+      }
+      break
+    }
+
+    case 'bundle': {
+      if (price === null || quantity < 1) break
+      // Unidades mais caras primeiro: o pacote rende o maior desconto possível
+      const eligible = lines
+        .filter(line => isEligible(promotion, line))
+        .sort((a, b) => b.unitPrice - a.unitPrice)
+      for (;;) {
+        const picked: Array<[number, number]> = []
+        const used = new Map<number, number>()
+        for (const line of eligible) {
+          const free =
+            (remaining.get(line.storeProductId) ?? 0) - (used.get(line.storeProductId) ?? 0)
+          for (let unit = 0; unit < free && picked.length < quantity; unit++) {
+            picked.push([line.storeProductId, line.unitPrice])
+            used.set(line.storeProductId, (used.get(line.storeProductId) ?? 0) + 1)
+          }
+        }
+        if (picked.length < quantity) break
+        const discount = cents(picked.reduce((sum, [, unitPrice]) => sum + unitPrice, 0) - price)
+        if (discount <= 0) break
+        for (const [id, count] of used) remaining.set(id, (remaining.get(id) ?? 0) - count)
+        add(allocate(discount, picked))
+        applied.times++
+      }
+      break
+    }
+
+    case 'nth-unit': {
+      const percent = promotion.percent ?? 0
+      if (quantity < 1 || percent <= 0) break
+      for (const line of lines) {
+        if (!isEligible(promotion, line)) continue
+        const groups = Math.floor((remaining.get(line.storeProductId) ?? 0) / quantity)
+        if (groups === 0) continue
+        remaining.set(
+          line.storeProductId,
+          (remaining.get(line.storeProductId) ?? 0) - groups * quantity
+        )
+        add({
+          [line.storeProductId]: cents((groups * line.unitPrice * Math.min(percent, 100)) / 100),
+        })
+        applied.times += groups
+      }
+      break
+    }
+  }
+
+  applied.amount = cents(Object.values(applied.allocations).reduce((sum, value) => sum + value, 0))
+  return applied.times > 0 && applied.amount > 0 ? applied : null
+}
+
+/**
+ * Calcula subtotal, descontos e total do carrinho
+ */
+export function priceCart(input: CartPricingInput): CartPricing {
+  const remaining = new Map(input.lines.map(line => [line.storeProductId, line.quantity]))
+
+  const promotions: AppliedPromotion[] = []
+  for (const promotion of input.promotions) {
+    const applied = applyPromotion(promotion, input.lines, remaining)
+    if (applied) promotions.push(applied)
+  }
+
+  const lines: LinePricing[] = input.lines.map(line => {
+    const gross = cents(line.unitPrice * line.quantity)
+    const promotionDiscount = cents(
+      Math.min(
+        gross,
+        promotions.reduce(
+          (sum, applied) => sum + (applied.allocations[line.storeProductId] ?? 0),
+          0
+        )
+      )
+    )
+    const itemDiscount = manualDiscountAmount(
+      gross - promotionDiscount,
+      input.itemDiscounts[line.storeProductId]
+    )
+    const net = cents(gross - promotionDiscount - itemDiscount)
+    return {
+      storeProductId: line.storeProductId,
+      gross,
+      promotionDiscount,
+      itemDiscount,
+      cartDiscount: 0,
+      net,
+    }
+  })
+
+  const beforeCart = cents(lines.reduce((sum, line) => sum + line.net, 0))
+  const cartDiscount = manualDiscountAmount(beforeCart, input.cartDiscount)
+  const cartShares = allocate(
+    cartDiscount,
+    lines.map(line => [line.storeProductId, line.net])
+  )
+  for (const line of lines) {
+    line.cartDiscount = cartShares[line.storeProductId] ?? 0
+    line.net = cents(line.net - line.cartDiscount)
+  }
+
+  const subtotal = cents(lines.reduce((sum, line) => sum + line.gross, 0))
+  const promotionDiscount = cents(lines.reduce((sum, line) => sum + line.promotionDiscount, 0))
+  const itemDiscount = cents(lines.reduce((sum, line) => sum + line.itemDiscount, 0))
+
+  return {
+    lines,
+    subtotal,
+    promotionDiscount,
+    itemDiscount,
+    cartDiscount,
+    discountTotal: cents(promotionDiscount + itemDiscount + cartDiscount),
+    total: cents(subtotal - promotionDiscount - itemDiscount - cartDiscount),
+    promotions,
+  }
+}
+
+/**
+ * Descontos no formato da venda: um registro por promoção e item, por desconto no item e
+ * um para o carrinho (com o modo e o valor informados)
+ */
+export function saleDiscounts(
+  pricing: CartPricing,
+  itemDiscounts: Record<number, ManualDiscount>,
+  cartDiscount: ManualDiscount | null
+): SaleDiscountRequest[] {
+  const discounts: SaleDiscountRequest[] = []
+
+  for (const applied of pricing.promotions) {
+    for (const [id, amount] of Object.entries(applied.allocations)) {
+      if (amount <= 0) continue
+      discounts.push({
+        source: 'promotion',
+        promotion_id: applied.promotion.id,
+        store_product_id: Number(id),
+        mode: null,
+        value: null,
+        amount,
+      })
+    }
+  }
+
+  for (const line of pricing.lines) {
+    const discount = itemDiscounts[line.storeProductId]
+    if (!discount || line.itemDiscount <= 0) continue
+    discounts.push({
+      source: 'item',
+      promotion_id: null,
+      store_product_id: line.storeProductId,
+      mode: discount.mode,
+      value: discount.value,
+      amount: line.itemDiscount,
+    })
+  }
+
+  if (cartDiscount && pricing.cartDiscount > 0) {
+    discounts.push({
+      source: 'cart',
+      promotion_id: null,
+      store_product_id: null,
+      mode: cartDiscount.mode,
+      value: cartDiscount.value,
+      amount: pricing.cartDiscount,
+    })
+  }
+
+  return discounts
+}
@@ -16,6 +16,16 @@ function ensureAbsoluteUrl(url: string): string {
   return `https://${trimmed.startsWith('/') ? trimmed.slice(1) : trimmed}`.replace(/\/+$/, '')
 }
 
+/**
+ * Tempo de inatividade (ms) até a tela travar, a partir de VITE_IDLE_LOCK_MINUTES.
+ * Padrão: 5 minutos. Zero desativa o bloqueio automático.
+ */
+export function getIdleLockTimeoutMs(): number {
+  const minutes = Number(import.meta.env.VITE_IDLE_LOCK_MINUTES ?? 5)
+  if (!Number.isFinite(minutes) || minutes < 0) return 5 * 60 * 1000
+  return minutes * 60 * 1000
+}
+
 /**
  * Retorna a URL base da API configurada nas variáveis de ambiente.
  * Em desenvolvimento, usa http://localhost:8000/api/v1.
@@ -0,0 +1,100 @@
+/**
+ * Leitura e escrita do estado das listas na query da URL
+ * (ex.: `?search=ignite&low_stock=1&sort_by=stock_quantity&page=3`)
+ * Valores inválidos na URL são ignorados: a lista volta ao valor padrão do campo.
+ */
+
+import type { LocationQuery, LocationQueryRaw, LocationQueryValue } from 'vue-router'
+
+export type QueryValueType = 'string' | 'number' | 'boolean'
+
+export type QueryValue = string | number | boolean
+
+/** Estado de uma lista na forma da query (só o que difere do padrão) */
+export type ListQueryState = Record<string, string>
+
+function firstValue(raw: LocationQueryValue | LocationQueryValue[] | undefined): string | null {
+  const value = Array.isArray(raw) ? raw[0] : raw
+  return typeof value === 'string' ? value : null
+}
+
+export function parseQueryValue(
+  raw: LocationQueryValue | LocationQueryValue[] | undefined,
+  type: QueryValueType
+): QueryValue | undefined {
+  const value = firstValue(raw)
+  if (value === null || value === '') return undefined
+
+  switch (type) {
+    case 'boolean':
+      if (value === '1' || value === 'true') return true
+      if (value === '0' || value === 'false') return false
+      return undefined
+    case 'number': {
+      const n = Number(value)
+      return Number.isFinite(n) ? n : undefined
+    }
+    default:
+      return value
+  }
+}
+
+export function formatQueryValue(value: QueryValue): string {
+  if (typeof value === 'boolean') return value ? '1' : '0'
+  return String(value)
+}
+
+/**
+ * Valor da query entre os permitidos (ex.: `sort_by`), ou undefined
+ */
+export function parseQueryOption<T extends string>(
+  raw: LocationQueryValue | LocationQueryValue[] | undefined,
+  allowed: readonly T[]
+): T | undefined {
+  const value = firstValue(raw)
+  return allowed.find(option => option === value)
+}
+
+/**
+ * Lista separada por vírgulas com valores entre os permitidos (ex.: `columns`), sem repetidos;
+ * undefined se nenhum valor for válido
+ */
+export function parseQueryList<T extends string>(
+  raw: LocationQueryValue | LocationQueryValue[] | undefined,
+  allowed: readonly T[]
+): T[] | undefined {
+  const values = (firstValue(raw) ?? '').split(',')
+  const list = allowed.filter(option => values.includes(option))
+  return list.length ? list.sort((a, b) => values.indexOf(a) - values.indexOf(b)) : undefined
+}
+
+/**
+ * Inteiro positivo da query (ex.: `page`), ou undefined
+ */
+export function parseQueryPage(
+  raw: LocationQueryValue | LocationQueryValue[] | undefined
+): number | undefined {
+  const value = parseQueryValue(raw, 'number')
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined
+}
+
+/**
+ * Compara apenas as chaves de interesse (a query pode ter outras, de outras telas/recursos)
+ */
+export function queryMatches(
+  current: LocationQuery,
+  expected: LocationQueryRaw,
+  keys: readonly string[]
+): boolean {
+  return keys.every(key => {
+    const expectedValue = expected[key]
+    return (firstValue(current[key]) ?? undefined) === (expectedValue ?? undefined)
+  })
+}
+
+/**
+ * Query atual sem as chaves informadas
+ */
+export function omitQueryKeys(query: LocationQuery, keys: readonly string[]): LocationQueryRaw {
+  return Object.fromEntries(Object.entries(query).filter(([key]) => !keys.includes(key)))
+}
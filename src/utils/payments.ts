@@ -0,0 +1,102 @@
+/**
+ * Pagamentos da venda (PDV): formas de pagamento, divisão do total e troco
+ *
+ * A soma dos pagamentos deve fechar o total da venda; o dinheiro recebido cobre a parte em
+ * dinheiro e o excedente é o troco. Valores em reais, arredondados em centavos.
+ */
+
+import type { PaymentMethod, SalePayment, SalePaymentRequest } from '@/api/types'
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: 'Dinheiro',
+  pix: 'Pix',
+  debit: 'Débito',
+  credit: 'Crédito',
+}
+
+export const MAX_INSTALLMENTS = 12
+
+/** Pagamento em edição no checkout */
+export interface PaymentLine {
+  method: PaymentMethod
+  amount: number | null
+  /** Apenas crédito (1 = à vista) */
+  installments: number
+}
+
+export interface PaymentSummary {
+  paid: number
+  /** Quanto falta pagar (negativo: pagamentos passam do total) */
+  remaining: number
+  cashAmount: number
+  change: number
+  /** Motivo de não poder finalizar (null = pagamento fechado) */
+  problem: string | null
+}
+
+function cents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function formatCurrency(value: number): string {
+  return value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })
+}
+
+/**
+ * Confere os pagamentos contra o total e calcula o troco
+ */
+export function summarizePayments(
+  total: number,
+  lines: PaymentLine[],
+  cashReceived: number | null
+): PaymentSummary {
+  const paid = cents(lines.reduce((sum, line) => sum + (line.amount ?? 0), 0))
+  const remaining = cents(total - paid)
+  const cashAmount = cents(
+    lines.filter(line => line.method === 'cash').reduce((sum, line) => sum + (line.amount ?? 0), 0)
+  )
+  const change =
+    cashAmount > 0 && cashReceived !== null ? Math.max(0, cents(cashReceived - cashAmount)) : 0
+
+  let problem: string | null = null
+  if (lines.length === 0) {
+    // Venda zerada por descontos não tem o que pagar
+    problem = total > 0 ? 'Escolha a forma de pagamento' : null
+  } else if (lines.some(line => !(line.amount !== null && line.amount > 0))) {
+    problem = 'Informe o valor de cada pagamento'
+  } else if (remaining > 0) {
+    problem = `Faltam ${formatCurrency(remaining)} para fechar o total`
+  } else if (remaining < 0) {
+    problem = `Os pagamentos passam do total em ${formatCurrency(-remaining)}`
+  } else if (cashAmount > 0 && (cashReceived === null || cashReceived < cashAmount)) {
+    problem = `Informe o dinheiro recebido (mínimo ${formatCurrency(cashAmount)})`
+  }
+
+  return { paid, remaining, cashAmount, change, problem }
+}
+
+/**
+ * Pagamentos no formato da venda (parcelas só no crédito)
+ */
+export function paymentsPayload(lines: PaymentLine[]): SalePaymentRequest[] {
+  return lines.map(line => ({
+    method: line.method,
+    amount: cents(line.amount ?? 0),
+    installments: line.method === 'credit' ? line.installments : null,
+  }))
+}
+
+/**
+ * Formas de pagamento de uma venda em texto curto (ex.: "Pix + Crédito 3×")
+ */
+export function describePayments(payments: SalePayment[] | undefined): string {
+  if (!payments || payments.length === 0) return ''
+  return payments
+    .map(payment => {
+      const label = paymentMethodLabels[payment.method]
+      return payment.installments && payment.installments > 1
+        ? `${label} ${payment.installments}×`
+        : label
+    })
+    .join(' + ')
+}
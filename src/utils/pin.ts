@@ -0,0 +1,12 @@
+/**
+ * Regras do PIN de desbloqueio rápido (tela travada por inatividade)
+ */
+
+export const PIN_MIN_LENGTH = 4
+export const PIN_MAX_LENGTH = 6
+
+const PIN_PATTERN = new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`)
+
+export function isValidPin(pin: string): boolean {
+  return PIN_PATTERN.test(pin)
+}
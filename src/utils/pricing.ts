@@ -0,0 +1,63 @@
+/**
+ * Cálculo de preços para o reajuste em massa (regras de margem, markup e final de preço)
+ */
+
+import type { PriceEnding, RepricingMethod } from '@/api/types'
+
+/** Regra aplicada a um produto (o que é salvo, sem nome e filtros) */
+export interface PricingRule {
+  method: RepricingMethod
+  percent: number | null
+  ending: PriceEnding | null
+}
+
+export type PriceResult = { price: number; problem: null } | { price: null; problem: string }
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Menor preço com o final pedido que não fique abaixo de `price` (12,34 → 12,90 / 12,99)
+ */
+export function roundToEnding(price: number, ending: PriceEnding): number {
+  const cents = Number(ending)
+  const candidate = Math.floor(price) + cents
+  return roundCents(candidate >= roundCents(price) ? candidate : candidate + 1)
+}
+
+/**
+ * Margem sobre o preço de venda, em % ((venda - custo) / venda); null sem preço de venda
+ */
+export function marginPercent(cost: number, sale: number): number | null {
+  if (sale <= 0) return null
+  return ((sale - cost) / sale) * 100
+}
+
+/**
+ * Novo preço de venda segundo a regra, ou o motivo de não ser possível calcular
+ */
+export function priceForRule(cost: number, currentSale: number, rule: PricingRule): PriceResult {
+  let price: number
+  const percent = rule.percent ?? 0
+
+  switch (rule.method) {
+    case 'margin':
+      if (cost <= 0) return { price: null, problem: 'Sem preço de custo' }
+      if (percent >= 100) return { price: null, problem: 'Margem deve ser menor que 100%' }
+      price = cost / (1 - percent / 100)
+      break
+    case 'markup':
+      if (cost <= 0) return { price: null, problem: 'Sem preço de custo' }
+      price = cost * (1 + percent / 100)
+      break
+    case 'round':
+      price = currentSale
+      break
+  }
+
+  price = roundCents(price)
+  if (rule.ending) price = roundToEnding(price, rule.ending)
+  if (price <= 0) return { price: null, problem: 'O preço ficaria zerado ou negativo' }
+  return { price, problem: null }
+}
@@ -0,0 +1,70 @@
+/**
+ * Usuários usados recentemente em cada loja (troca rápida de vendedor no terminal)
+ * Guardados no localStorage do dispositivo, nunca com credenciais.
+ */
+
+import type { User } from '@/api/types'
+
+export interface RecentUser {
+  id: number
+  name: string
+  role: User['role']
+  has_pin: boolean
+  last_used_at: number
+}
+
+const STORAGE_KEY = 'recent_users'
+const MAX_RECENT_USERS = 8
+
+type RecentUsersByStore = Record<string, RecentUser[]>
+
+function readAll(): RecentUsersByStore {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Usuários recentes da loja, do mais recente para o mais antigo
+ */
+export function getRecentUsers(storeId: number): RecentUser[] {
+  const list = readAll()[String(storeId)]
+  return Array.isArray(list) ? list : []
+}
+
+/**
+ * Registra o uso do terminal pelo usuário (na loja dele). Admin sem loja não é registrado.
+ */
+export function rememberRecentUser(user: User) {
+  if (typeof user.store_id !== 'number') return
+
+  const all = readAll()
+  const key = String(user.store_id)
+  const others = (all[key] ?? []).filter(recent => recent.id !== user.id)
+  all[key] = [
+    {
+      id: user.id,
+      name: user.name,
+      role: user.role,
+      has_pin: !!user.has_pin,
+      last_used_at: Date.now(),
+    },
+    ...others,
+  ].slice(0, MAX_RECENT_USERS)
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all))
+}
+
+/**
+ * Remove um usuário da lista da loja (ex.: "não sou eu" / usuário desativado)
+ */
+export function forgetRecentUser(storeId: number, userId: number) {
+  const all = readAll()
+  const key = String(storeId)
+  if (!all[key]) return
+  all[key] = all[key].filter(recent => recent.id !== userId)
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all))
+}
@@ -0,0 +1,15 @@
+/**
+ * Destino de redirecionamento vindo da URL (ex.: `?redirect=` do login)
+ * Só caminhos do próprio app são aceitos: `//host` e `/\host` levariam para outro site.
+ */
+export function safeRedirectPath(redirect: unknown): string {
+  if (
+    typeof redirect === 'string' &&
+    redirect.startsWith('/') &&
+    !redirect.startsWith('//') &&
+    !redirect.startsWith('/\\')
+  ) {
+    return redirect
+  }
+  return '/'
+}
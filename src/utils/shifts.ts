@@ -0,0 +1,137 @@
+/**
+ * Conferência do turno de caixa: esperado (vendas do turno + movimentações) contra o contado
+ *
+ * Dinheiro esperado = fundo de troco + parte em dinheiro das vendas + entradas − saídas
+ * (o troco já está descontado: a venda registra só a parte paga em dinheiro).
+ * Demais formas: soma dos pagamentos das vendas do turno.
+ * Valores em reais, arredondados em centavos.
+ */
+
+import type { DenominationCount, PaymentMethod, Sale, Shift } from '@/api/types'
+import { paymentMethodLabels } from '@/utils/payments'
+
+/** Cédulas e moedas do real, da maior para a menor (chaves da contagem) */
+export const DENOMINATIONS = [
+  '200',
+  '100',
+  '50',
+  '20',
+  '10',
+  '5',
+  '2',
+  '1',
+  '0.50',
+  '0.25',
+  '0.10',
+  '0.05',
+] as const
+
+export interface ShiftReportRow {
+  method: PaymentMethod
+  label: string
+  expected: number
+  /** null = não conferido */
+  counted: number | null
+  difference: number | null
+}
+
+export interface ShiftReport {
+  salesCount: number
+  salesTotal: number
+  openingFloat: number
+  cashIn: number
+  cashOut: number
+  rows: ShiftReportRow[]
+  /** Soma das diferenças conferidas (negativo = falta) */
+  difference: number
+}
+
+function cents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function denominationLabel(denomination: string): string {
+  const value = parseFloat(denomination)
+  const formatted = value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })
+  return value < 2 ? `${formatted} (moeda)` : formatted
+}
+
+/**
+ * Valor total de uma contagem por cédula/moeda
+ */
+export function countTotal(count: DenominationCount | null | undefined): number {
+  if (!count) return 0
+  return cents(
+    Object.entries(count).reduce(
+      (sum, [denomination, quantity]) => sum + parseFloat(denomination) * (quantity || 0),
+      0
+    )
+  )
+}
+
+/**
+ * Valores conferidos gravados no turno fechado
+ */
+export function parseCountedAmounts(
+  amounts: Shift['counted_amounts']
+): Partial<Record<PaymentMethod, number>> | null {
+  if (!amounts) return null
+  const parsed: Partial<Record<PaymentMethod, number>> = {}
+  for (const [method, value] of Object.entries(amounts) as Array<[PaymentMethod, string]>) {
+    parsed[method] = parseFloat(value)
+  }
+  return parsed
+}
+
+/**
+ * Relatório esperado × contado por forma de pagamento
+ */
+export function shiftReport(
+  shift: Shift,
+  sales: Sale[],
+  counted: Partial<Record<PaymentMethod, number>> | null
+): ShiftReport {
+  const byMethod: Record<PaymentMethod, number> = { cash: 0, pix: 0, debit: 0, credit: 0 }
+  for (const sale of sales) {
+    for (const payment of sale.payments ?? []) {
+      byMethod[payment.method] = cents(byMethod[payment.method] + parseFloat(payment.amount))
+    }
+  }
+
+  const movements = shift.movements ?? []
+  const sumMovements = (kind: 'cash-in' | 'cash-out') =>
+    cents(
+      movements
+        .filter(movement => movement.kind === kind)
+        .reduce((sum, movement) => sum + parseFloat(movement.amount), 0)
+    )
+  const openingFloat = parseFloat(shift.opening_float) || 0
+  const cashIn = sumMovements('cash-in')
+  const cashOut = sumMovements('cash-out')
+
+  const expected: Record<PaymentMethod, number> = {
+    ...byMethod,
+    cash: cents(openingFloat + byMethod.cash + cashIn - cashOut),
+  }
+
+  const rows = (Object.keys(paymentMethodLabels) as PaymentMethod[]).map(method => {
+    const countedValue = counted?.[method] ?? null
+    return {
+      method,
+      label: paymentMethodLabels[method],
+      expected: expected[method],
+      counted: countedValue,
+      difference: countedValue === null ? null : cents(countedValue - expected[method]),
+    }
+  })
+
+  return {
+    salesCount: sales.length,
+    salesTotal: cents(sales.reduce((sum, sale) => sum + parseFloat(sale.total_amount), 0)),
+    openingFloat,
+    cashIn,
+    cashOut,
+    rows,
+    difference: cents(rows.reduce((sum, row) => sum + (row.difference ?? 0), 0)),
+  }
+}
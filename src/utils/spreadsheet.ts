@@ -0,0 +1,345 @@
+/**
+ * Geração de planilhas (CSV e XLSX) a partir de colunas tipadas
+ * - CSV no padrão do Excel em pt-BR: `;` como separador, vírgula decimal, datas dd/mm/aaaa
+ * - XLSX com números e datas de verdade (formatados na planilha, não como texto)
+ * As linhas chegam em lotes (`writeRows`), uma página da API por vez, e viram texto na hora:
+ * a exportação não precisa manter todas as entidades em memória.
+ */
+
+import { createZip } from '@/utils/zip'
+
+export type SpreadsheetFormat = 'csv' | 'xlsx'
+
+export type CellType = 'text' | 'integer' | 'decimal' | 'currency' | 'date' | 'datetime' | 'boolean'
+
+export type CellValue = string | number | boolean | null | undefined
+
+export interface ExportColumn<T> {
+  header: string
+  /** Padrão: text. Valores decimais podem vir como string da API ("12.50") */
+  type?: CellType
+  value: (row: T) => CellValue
+}
+
+export interface SpreadsheetWriter<T> {
+  writeRows(rows: readonly T[]): void
+  finish(): Blob
+}
+
+export const SPREADSHEET_MIME_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+// ---------------------------------------------------------------------------
+// Normalização dos valores
+// ---------------------------------------------------------------------------
+
+function toNumber(value: CellValue): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+function toDate(value: CellValue): Date | null {
+  if (value === null || value === undefined || value === '' || typeof value === 'boolean') {
+    return null
+  }
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+const decimalFormat = new Intl.NumberFormat('pt-BR', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+  useGrouping: false,
+})
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+/** Valor como texto localizado (CSV) */
+function formatCell(value: CellValue, type: CellType): string {
+  switch (type) {
+    case 'integer': {
+      const n = toNumber(value)
+      return n === null ? '' : String(Math.trunc(n))
+    }
+    case 'decimal':
+    case 'currency': {
+      const n = toNumber(value)
+      return n === null ? '' : decimalFormat.format(n)
+    }
+    case 'date':
+    case 'datetime': {
+      const date = toDate(value)
+      if (!date) return ''
+      const day = `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`
+      return type === 'date' ? day : `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+    }
+    case 'boolean':
+      return value === null || value === undefined ? '' : value ? 'Sim' : 'Não'
+    default:
+      return value === null || value === undefined ? '' : String(value)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+const CSV_SEPARATOR = ';'
+
+function csvField(text: string): string {
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Texto que a planilha interpretaria como fórmula (=, +, -, @, tab, CR no início) ganha um `'`
+ * na frente. Só para células de texto: números negativos continuam números. No XLSX não é
+ * preciso, as strings inline nunca viram fórmula.
+ */
+function csvCell(value: CellValue, type: CellType): string {
+  const text = formatCell(value, type)
+  return type === 'text' && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text
+}
+
+function createCsvWriter<T>(columns: readonly ExportColumn<T>[]): SpreadsheetWriter<T> {
+  // BOM: o Excel só reconhece UTF-8 (acentos) com ele
+  const parts: string[] = ['\uFEFF' + columns.map(c => csvField(c.header)).join(CSV_SEPARATOR)]
+
+  return {
+    writeRows(rows) {
+      if (rows.length === 0) return
+      parts.push(
+        rows
+          .map(row =>
+            columns
+              .map(column => csvField(csvCell(column.value(row), column.type ?? 'text')))
+              .join(CSV_SEPARATOR)
+          )
+          .join('\r\n')
+      )
+    },
+    finish() {
+      return new Blob([parts.join('\r\n') + '\r\n'], { type: SPREADSHEET_MIME_TYPES.csv })
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// XLSX (SpreadsheetML mínimo: uma planilha, strings inline, estilos por tipo)
+// ---------------------------------------------------------------------------
+
+/** Índice do estilo (cellXfs em styles.xml) por tipo de célula */
+const XLSX_STYLES: Record<CellType, number> = {
+  text: 0,
+  boolean: 0,
+  integer: 1,
+  decimal: 2,
+  currency: 3,
+  date: 4,
+  datetime: 5,
+}
+const XLSX_HEADER_STYLE = 6
+
+const XLSX_STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="4">' +
+  '<numFmt numFmtId="164" formatCode="#,##0.00"/>' +
+  '<numFmt numFmtId="165" formatCode="&quot;R$&quot;\\ #,##0.00"/>' +
+  '<numFmt numFmtId="166" formatCode="dd/mm/yyyy"/>' +
+  '<numFmt numFmtId="167" formatCode="dd/mm/yyyy\\ hh:mm"/>' +
+  '</numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="7">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="167" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '</cellXfs>' +
+  '</styleSheet>'
+
+function xmlEscape(text: string): string {
+  return (
+    text
+      // Caracteres de controle são inválidos em XML
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  )
+}
+
+/** Nome da coluna na planilha: 0 → A, 25 → Z, 26 → AA */
+function columnName(index: number): string {
+  let name = ''
+  let n = index + 1
+  while (n > 0) {
+    const rest = (n - 1) % 26
+    name = String.fromCharCode(65 + rest) + name
+    n = Math.floor((n - 1) / 26)
+  }
+  return name
+}
+
+/** Data como número serial do Excel (dias desde 1899-12-30, no fuso local) */
+function excelSerial(date: Date): number {
+  return (date.getTime() - date.getTimezoneOffset() * 60_000) / 86_400_000 + 25569
+}
+
+function inlineString(ref: string, text: string, style = 0): string {
+  const s = style ? ` s="${style}"` : ''
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${xmlEscape(text)}</t></is></c>`
+}
+
+function xlsxCell(ref: string, value: CellValue, type: CellType): string {
+  switch (type) {
+    case 'integer':
+    case 'decimal':
+    case 'currency': {
+      const n = toNumber(value)
+      if (n === null) return ''
+      return `<c r="${ref}" s="${XLSX_STYLES[type]}"><v>${type === 'integer' ? Math.trunc(n) : n}</v></c>`
+    }
+    case 'date':
+    case 'datetime': {
+      const date = toDate(value)
+      if (!date) return ''
+      const serial = excelSerial(date)
+      return `<c r="${ref}" s="${XLSX_STYLES[type]}"><v>${type === 'date' ? Math.floor(serial) : serial}</v></c>`
+    }
+    default: {
+      const text = formatCell(value, type)
+      return text ? inlineString(ref, text) : ''
+    }
+  }
+}
+
+/** Nome de aba válido no Excel (até 31 caracteres, sem []:*?/\) */
+function sheetTitle(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Planilha'
+}
+
+function createXlsxWriter<T>(
+  columns: readonly ExportColumn<T>[],
+  sheetName: string
+): SpreadsheetWriter<T> {
+  const zip = createZip()
+  const sheet = zip.addFile('xl/worksheets/sheet1.xml')
+  let rowIndex = 1
+
+  const cols = columns
+    .map((column, i) => {
+      const width = Math.max(12, column.header.length + 4)
+      return `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`
+    })
+    .join('')
+  const header = columns
+    .map((column, i) => inlineString(`${columnName(i)}1`, column.header, XLSX_HEADER_STYLE))
+    .join('')
+  sheet.write(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>' +
+      `<cols>${cols}</cols><sheetData><row r="1">${header}</row>`
+  )
+
+  return {
+    writeRows(rows) {
+      if (rows.length === 0) return
+      const xml = rows.map(row => {
+        rowIndex++
+        const cells = columns
+          .map((column, i) =>
+            xlsxCell(`${columnName(i)}${rowIndex}`, column.value(row), column.type ?? 'text')
+          )
+          .join('')
+        return `<row r="${rowIndex}">${cells}</row>`
+      })
+      sheet.write(xml.join(''))
+    },
+    finish() {
+      sheet.write('</sheetData></worksheet>')
+
+      zip
+        .addFile('[Content_Types].xml')
+        .write(
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+            '<Default Extension="xml" ContentType="application/xml"/>' +
+            '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+            '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+            '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+            '</Types>'
+        )
+      zip
+        .addFile('_rels/.rels')
+        .write(
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+            '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+            '</Relationships>'
+        )
+      zip
+        .addFile('xl/workbook.xml')
+        .write(
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+            'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+            `<sheets><sheet name="${xmlEscape(sheetTitle(sheetName))}" sheetId="1" r:id="rId1"/></sheets>` +
+            '</workbook>'
+        )
+      zip
+        .addFile('xl/_rels/workbook.xml.rels')
+        .write(
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+            '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+            '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+            '</Relationships>'
+        )
+      zip.addFile('xl/styles.xml').write(XLSX_STYLES_XML)
+
+      return zip.toBlob(SPREADSHEET_MIME_TYPES.xlsx)
+    },
+  }
+}
+
+/**
+ * Cria o gerador da planilha no formato pedido
+ */
+export function createSpreadsheetWriter<T>(
+  format: SpreadsheetFormat,
+  columns: readonly ExportColumn<T>[],
+  sheetName: string
+): SpreadsheetWriter<T> {
+  return format === 'xlsx' ? createXlsxWriter(columns, sheetName) : createCsvWriter(columns)
+}
+
+/**
+ * Dispara o download de um arquivo gerado no navegador
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Dar tempo ao navegador de iniciar o download antes de liberar o objeto
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
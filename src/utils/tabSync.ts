@@ -0,0 +1,86 @@
+/**
+ * Canal de mensagens entre abas do mesmo navegador
+ * Usa BroadcastChannel quando disponível, com fallback para o evento `storage`
+ * (navegadores antigos/WebViews de terminais POS).
+ */
+
+export type TabMessage =
+  | {
+      type: 'login'
+      token: string
+      refreshToken: string | null
+      expiresAt: number | null
+    }
+  | { type: 'logout' }
+  | {
+      type: 'token'
+      token: string
+      refreshToken: string | null
+      expiresAt: number | null
+    }
+  | { type: 'store-selected'; storeId: number | null }
+  | { type: 'locked' }
+  | { type: 'unlocked' }
+
+type TabMessageHandler = (message: TabMessage) => void
+
+const CHANNEL_NAME = 'bosspods-tabs'
+const STORAGE_KEY = 'bosspods-tab-message'
+
+const handlers = new Set<TabMessageHandler>()
+let channel: BroadcastChannel | null = null
+let listening = false
+
+function dispatch(message: unknown) {
+  if (!message || typeof message !== 'object' || !('type' in message)) return
+  handlers.forEach(handler => handler(message as TabMessage))
+}
+
+function handleStorage(event: StorageEvent) {
+  if (event.key !== STORAGE_KEY || !event.newValue) return
+  try {
+    const envelope = JSON.parse(event.newValue) as { message?: unknown }
+    dispatch(envelope.message)
+  } catch {
+    // mensagem corrompida: ignorar
+  }
+}
+
+function ensureListening() {
+  if (listening) return
+  listening = true
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = event => dispatch(event.data)
+  } else {
+    window.addEventListener('storage', handleStorage)
+  }
+}
+
+/**
+ * Envia uma mensagem para as outras abas (a aba atual não recebe a própria mensagem)
+ */
+export function broadcastToTabs(message: TabMessage) {
+  ensureListening()
+
+  if (channel) {
+    channel.postMessage(message)
+    return
+  }
+
+  // O evento storage só dispara quando o valor muda: o nonce garante isso
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify({ message, nonce: `${Date.now()}-${Math.random()}` })
+  )
+}
+
+/**
+ * Escuta mensagens de outras abas. Retorna uma função para parar de escutar.
+ */
+export function onTabMessage(handler: TabMessageHandler): () => void {
+  ensureListening()
+  handlers.add(handler)
+  return () => handlers.delete(handler)
+}
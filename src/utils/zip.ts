@@ -0,0 +1,126 @@
+/**
+ * Arquivo ZIP mínimo (sem compressão), usado para montar planilhas XLSX no navegador
+ * O conteúdo de cada arquivo chega em pedaços (`ZipFileBuilder.write`) e o CRC é calculado
+ * conforme chega, sem juntar tudo numa única string.
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+type Bytes = Uint8Array<ArrayBuffer>
+
+const encoder = new TextEncoder()
+
+function encode(text: string): Bytes {
+  return encoder.encode(text) as Bytes
+}
+
+export interface ZipFileBuilder {
+  name: string
+  write(text: string): void
+}
+
+interface ZipEntry {
+  name: Bytes
+  chunks: Bytes[]
+  size: number
+  crc: number
+}
+
+function updateCrc(crc: number, data: Uint8Array): number {
+  let c = crc
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]!) & 0xff]! ^ (c >>> 8)
+  }
+  return c
+}
+
+/** Data/hora no formato MS-DOS usado pelo ZIP */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+export function createZip() {
+  const entries: ZipEntry[] = []
+
+  function addFile(name: string): ZipFileBuilder {
+    const entry: ZipEntry = { name: encode(name), chunks: [], size: 0, crc: 0xffffffff }
+    entries.push(entry)
+    return {
+      name,
+      write(text: string) {
+        const data = encode(text)
+        entry.chunks.push(data)
+        entry.size += data.length
+        entry.crc = updateCrc(entry.crc, data)
+      },
+    }
+  }
+
+  function toBlob(type = 'application/zip'): Blob {
+    const parts: BlobPart[] = []
+    const central: Bytes[] = []
+    const { time, date } = dosDateTime(new Date())
+    let offset = 0
+
+    for (const entry of entries) {
+      const crc = (entry.crc ^ 0xffffffff) >>> 0
+
+      const local = new DataView(new ArrayBuffer(30))
+      local.setUint32(0, 0x04034b50, true)
+      local.setUint16(4, 20, true) // versão necessária
+      local.setUint16(6, 0x0800, true) // nomes em UTF-8
+      local.setUint16(8, 0, true) // sem compressão
+      local.setUint16(10, time, true)
+      local.setUint16(12, date, true)
+      local.setUint32(14, crc, true)
+      local.setUint32(18, entry.size, true)
+      local.setUint32(22, entry.size, true)
+      local.setUint16(26, entry.name.length, true)
+      local.setUint16(28, 0, true)
+      parts.push(local.buffer, entry.name, ...entry.chunks)
+
+      const header = new DataView(new ArrayBuffer(46))
+      header.setUint32(0, 0x02014b50, true)
+      header.setUint16(4, 20, true)
+      header.setUint16(6, 20, true)
+      header.setUint16(8, 0x0800, true)
+      header.setUint16(10, 0, true)
+      header.setUint16(12, time, true)
+      header.setUint16(14, date, true)
+      header.setUint32(16, crc, true)
+      header.setUint32(20, entry.size, true)
+      header.setUint32(24, entry.size, true)
+      header.setUint16(28, entry.name.length, true)
+      header.setUint32(42, offset, true)
+      central.push(new Uint8Array(header.buffer), entry.name)
+
+      offset += 30 + entry.name.length + entry.size
+    }
+
+    const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, 0x06054b50, true)
+    end.setUint16(8, entries.length, true)
+    end.setUint16(10, entries.length, true)
+    end.setUint32(12, centralSize, true)
+    end.setUint32(16, offset, true)
+    parts.push(...central, end.buffer)
+
+    return new Blob(parts, { type })
+  }
+
+  return { addFile, toBlob }
+}